@@ -0,0 +1,111 @@
+// Self-hostable signaling server for WebSocketSignaling: keeps PIN rooms in
+// memory and relays offers and answers between the devices that use them.
+// Nothing about the files themselves ever reaches it.
+//
+//   npm run signaling-server
+//
+// Listens on PORT (default 8787) on every interface, or on HOST if set.
+// Point the app at it under Settings, e.g. ws://192.168.1.10:8787.
+
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { RoomRegistry, parseRelayClientMessage, type RelayRequest, type RelayServerMessage } from '../src/lib/signalingRooms';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const HOST = process.env.HOST;
+// Signaling messages are a few KB at most
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const SWEEP_INTERVAL_MS = 30 * 1000;
+// Sockets that miss a ping for this long are dropped
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// A dropped client that reconnects with its id within this long keeps its
+// rooms and watches, and gets what was pushed to it meanwhile
+const RECONNECT_GRACE_MS = 30 * 1000;
+const MAX_MISSED_MESSAGES = 256;
+const CLIENT_ID = /^[0-9a-f-]{36}$/i;
+
+const rooms = new RoomRegistry();
+const clients: Map<string, WebSocket> = new Map();
+const alive: Set<string> = new Set();
+const missed: Map<string, RelayServerMessage[]> = new Map();
+const dropTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+function deliver(client: string, message: RelayServerMessage) {
+  const socket = clients.get(client);
+  if (socket) {
+    socket.send(JSON.stringify(message));
+    return;
+  }
+  const queue = missed.get(client);
+  if (queue && queue.length < MAX_MISSED_MESSAGES) queue.push(message);
+}
+
+// Clients pick their own id so they can reconnect as themselves
+function clientIdOf(url: string | undefined): string {
+  const id = new URL(url ?? '/', 'ws://localhost').searchParams.get('client');
+  return id && CLIENT_ID.test(id) ? id : randomUUID();
+}
+
+const server = new WebSocketServer({ port: PORT, host: HOST, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on('connection', (socket, request) => {
+  const client = clientIdOf(request.url);
+  // A newer socket replaces an older one of the same client
+  clients.get(client)?.terminate();
+  clients.set(client, socket);
+  alive.add(client);
+  clearTimeout(dropTimers.get(client));
+  dropTimers.delete(client);
+  missed.get(client)?.forEach(message => socket.send(JSON.stringify(message)));
+  missed.delete(client);
+  console.log(`Client ${client.slice(0, 8)} connected from ${request.socket.remoteAddress}`);
+
+  socket.on('pong', () => alive.add(client));
+
+  socket.on('message', (data) => {
+    const message = parseRelayClientMessage(data.toString());
+    if (!message) {
+      console.warn(`Ignoring malformed message from ${client.slice(0, 8)}`);
+      return;
+    }
+    const { requestId, ...relayRequest } = message;
+    const result = rooms.handle(client, relayRequest as RelayRequest, deliver);
+    deliver(client, { type: 'result', requestId, ...result });
+  });
+
+  // A host's rooms close with its connection, unless it comes back in time
+  socket.on('close', () => {
+    if (clients.get(client) !== socket) return;
+    clients.delete(client);
+    alive.delete(client);
+    missed.set(client, []);
+    dropTimers.set(client, setTimeout(() => {
+      dropTimers.delete(client);
+      missed.delete(client);
+      rooms.dropClient(client);
+      console.log(`Client ${client.slice(0, 8)} gone, closing its rooms`);
+    }, RECONNECT_GRACE_MS));
+    console.log(`Client ${client.slice(0, 8)} disconnected`);
+  });
+
+  socket.on('error', (error) => {
+    console.warn(`Socket error from ${client.slice(0, 8)}:`, error.message);
+  });
+});
+
+setInterval(() => rooms.sweep(), SWEEP_INTERVAL_MS);
+
+setInterval(() => {
+  clients.forEach((socket, client) => {
+    if (!alive.has(client)) {
+      socket.terminate();
+      return;
+    }
+    alive.delete(client);
+    socket.ping();
+  });
+}, HEARTBEAT_INTERVAL_MS);
+
+server.on('listening', () => {
+  console.log(`Signaling server listening on ws://${HOST ?? '0.0.0.0'}:${PORT}`);
+});
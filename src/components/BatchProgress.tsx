@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileTransfer } from '@/lib/webrtc';
+import { Progress } from '@/components/ui/progress';
+import { Layers } from 'lucide-react';
+import { formatDuration, formatFileSize } from '@/lib/utils';
+
+interface BatchProgressProps {
+  transfers: FileTransfer[];
+}
+
+// Seconds left for the batch, from a smoothed transfer rate
+function useEta(doneBytes: number, totalBytes: number, active: boolean): number | null {
+  const sample = useRef<{ time: number; bytes: number; rate: number } | null>(null);
+  const [eta, setEta] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!active) {
+      sample.current = null;
+      setEta(null);
+      return;
+    }
+
+    const now = performance.now();
+    const last = sample.current;
+    if (!last) {
+      sample.current = { time: now, bytes: doneBytes, rate: 0 };
+      return;
+    }
+
+    // Sample at most twice a second so single chunks don't swing the estimate
+    const elapsed = (now - last.time) / 1000;
+    if (elapsed < 0.5) return;
+
+    const instant = (doneBytes - last.bytes) / elapsed;
+    const rate = last.rate > 0 ? last.rate * 0.7 + instant * 0.3 : instant;
+    sample.current = { time: now, bytes: doneBytes, rate };
+    setEta(rate > 0 ? (totalBytes - doneBytes) / rate : null);
+  }, [doneBytes, totalBytes, active]);
+
+  return eta;
+}
+
+export function BatchProgress({ transfers }: BatchProgressProps) {
+  // Declined and cancelled files no longer count towards the batch
+  const files = transfers.filter(t => t.status !== 'declined' && t.status !== 'cancelled');
+  const totalBytes = files.reduce((acc, t) => acc + t.size, 0);
+  const doneBytes = files.reduce((acc, t) => acc + (t.status === 'completed' ? t.size : (t.size * t.progress) / 100), 0);
+  const completed = files.filter(t => t.status === 'completed').length;
+  const active = files.some(t => t.status === 'transferring');
+  const progress = totalBytes > 0 ? Math.round((doneBytes / totalBytes) * 100) : completed === files.length ? 100 : 0;
+  const eta = useEta(doneBytes, totalBytes, active);
+
+  if (files.length === 0) return null;
+
+  return (
+    <div className="rounded-xl px-4 py-3 bg-secondary/50 space-y-2">
+      <div className="flex items-center justify-between gap-4 text-xs">
+        <span className="flex items-center gap-2 text-foreground font-medium">
+          <Layers className="w-4 h-4 text-primary" />
+          {completed} of {files.length} files
+        </span>
+        <span className="text-muted-foreground font-mono">
+          {formatFileSize(doneBytes)} / {formatFileSize(totalBytes)}
+          {active && eta !== null && ` · ~${formatDuration(eta)} left`}
+        </span>
+      </div>
+      <Progress value={progress} className="h-1.5" />
+    </div>
+  );
+}
@@ -1,24 +1,35 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
-import { Link2, Loader2, Copy, CheckCircle2, Shield, QrCode, ScanLine } from 'lucide-react';
+import { Link2, Loader2, Copy, CheckCircle2, Shield, QrCode, ScanLine, PauseCircle, Users, Sprout, WifiOff } from 'lucide-react';
 import { toast } from 'sonner';
-import { webrtc } from '@/lib/webrtc';
-import { supabase } from '@/integrations/supabase/client';
+import { generatePin } from '@/lib/utils';
+import { FileTransfer } from '@/lib/webrtc';
+import { usePeerSession, usePeerRoom } from '@/hooks/use-peer-session';
+import { RoomFullError, type IceRole } from '@/lib/signaling';
+import { ConnectionPolicyError } from '@/lib/iceServers';
 import { QRCodeSVG } from 'qrcode.react';
 import { QRScanner } from './QRScanner';
+import { ManualPairing } from './ManualPairing';
+import { SettingsDialog } from './SettingsDialog';
 
 interface ConnectionPanelProps {
   onConnected: () => void;
+  // Switch to setting up a seeding room
+  onSeed: () => void;
 }
 
-type ConnectionMode = 'idle' | 'creating' | 'waiting' | 'joining' | 'connecting';
+type ConnectionMode = 'idle' | 'creating' | 'waiting' | 'joining' | 'connecting' | 'manual';
 
-function generatePin(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
-}
+// Devices that can join a group room besides the host
+const MAX_GROUP_PEERS = 8;
 
-export function ConnectionPanel({ onConnected }: ConnectionPanelProps) {
+export function ConnectionPanel({ onConnected, onSeed }: ConnectionPanelProps) {
+  const webrtc = usePeerSession();
+  const room = usePeerRoom();
+  const signaling = webrtc.signaling;
   const [mode, setMode] = useState<ConnectionMode>('idle');
   const [pin, setPin] = useState('');
   const [myPin, setMyPin] = useState('');
@@ -26,6 +37,41 @@ export function ConnectionPanel({ onConnected }: ConnectionPanelProps) {
   const [copied, setCopied] = useState(false);
   const [showQR, setShowQR] = useState(true);
   const [showScanner, setShowScanner] = useState(false);
+  // Let several devices join instead of one
+  const [groupRoom, setGroupRoom] = useState(false);
+  const [unfinished, setUnfinished] = useState<FileTransfer[]>([]);
+
+  // Partial downloads from a previous session continue once their sender reconnects
+  useEffect(() => {
+    webrtc.restorePartialTransfers().then(setUnfinished);
+  }, [webrtc]);
+
+  // Dropped on unmount so a later session doesn't navigate from here, and
+  // so ICE candidates stop flowing through the room once connected
+  const connectionListeners = useRef<Array<() => void>>([]);
+  useEffect(() => () => connectionListeners.current.forEach(unsubscribe => unsubscribe()), []);
+
+  const listenForConnection = () => {
+    connectionListeners.current.forEach(unsubscribe => unsubscribe());
+    connectionListeners.current = [
+      webrtc.on('channelOpen', () => {
+        toast.success(webrtc.isEncryptionEnabled() ? 'Connected with E2E encryption!' : 'Connected');
+        onConnected();
+      }),
+      // The peer runs an incompatible version of the app, or the connection
+      // policy ruled out the only path to it
+      webrtc.on('protocolError', ({ message }) => {
+        toast.error('Could not connect', { description: message });
+        room.disconnect();
+        setMode('idle');
+      }),
+    ];
+  };
+
+  // Call after listenForConnection
+  const trickleThrough = (roomPin: string, role: IceRole) => {
+    connectionListeners.current.push(webrtc.trickle(signaling, roomPin, role));
+  };
 
   const handleJoinWithPin = async (joinPin: string) => {
     if (joinPin.length !== 6) {
@@ -35,36 +81,34 @@ export function ConnectionPanel({ onConnected }: ConnectionPanelProps) {
 
     setMode('joining');
     try {
-      const { data: room, error } = await supabase
-        .from('rooms')
-        .select('*')
-        .eq('pin', joinPin)
-        .maybeSingle();
-
-      if (error) throw error;
-      if (!room) {
+      const found = await signaling.joinRoom(joinPin);
+      if (!found) {
         toast.error('Room not found');
         setMode('idle');
         return;
       }
 
       setMode('connecting');
-      const { answer, publicKey } = await webrtc.handleOffer(room.offer, (room as any).public_key);
-      
-      await supabase
-        .from('rooms')
-        .update({ answer: answer, peer_public_key: publicKey })
-        .eq('pin', joinPin);
-
-      webrtc.onMessage((msg) => {
-        if (msg.type === 'channelOpen') {
-          toast.success('Connected with E2E encryption!');
-          onConnected();
-        }
-      });
+      // Group rooms have no offer of their own; we post ours instead
+      if (!found.offer) {
+        listenForConnection();
+        await room.join(joinPin);
+        return;
+      }
+
+      const { answer, publicKey } = await webrtc.handleOffer(found.offer.sdp, found.offer.publicKey, { trickle: true });
+      await signaling.publishAnswer(joinPin, { sdp: answer, publicKey });
+
+      listenForConnection();
+      trickleThrough(joinPin, 'answerer');
     } catch (error) {
       console.error('Failed to join:', error);
-      toast.error('Failed to join room');
+      if (error instanceof RoomFullError) {
+        toast.error('Room is full');
+        setMode('idle');
+        return;
+      }
+      toast.error('Failed to join room', { description: error instanceof ConnectionPolicyError ? error.message : undefined });
       setMode('idle');
     }
   };
@@ -79,63 +123,45 @@ export function ConnectionPanel({ onConnected }: ConnectionPanelProps) {
     setMode('creating');
     try {
       const newPin = generatePin();
-      const { offer, publicKey } = await webrtc.createOffer();
-      
-      const { error } = await supabase
-        .from('rooms')
-        .insert({ pin: newPin, offer: offer, public_key: publicKey });
-      
-      if (error) throw error;
+
+      if (groupRoom) {
+        await room.host(newPin, { maxPeers: MAX_GROUP_PEERS });
+        setMyPin(newPin);
+        setMode('waiting');
+        listenForConnection();
+        return;
+      }
+
+      const { offer, publicKey } = await webrtc.createOffer({ trickle: true });
       
+      await signaling.createRoom(newPin, { offer: { sdp: offer, publicKey } });
+
       setMyPin(newPin);
       setMyPublicKey(publicKey);
       setMode('waiting');
       
-      webrtc.onMessage((msg) => {
-        if (msg.type === 'channelOpen') {
-          toast.success('Connected with E2E encryption!');
-          onConnected();
-        }
-      });
+      listenForConnection();
+      trickleThrough(newPin, 'offerer');
     } catch (error) {
       console.error('Failed to create room:', error);
-      toast.error('Failed to create room');
+      toast.error('Failed to create room', { description: error instanceof ConnectionPolicyError ? error.message : undefined });
       setMode('idle');
     }
   };
 
-  // Listen for answer updates when waiting
+  // Listen for answer updates when waiting; group rooms answer joiners themselves
   useEffect(() => {
-    if (mode !== 'waiting' || !myPin) return;
-
-    const channel = supabase
-      .channel('room-updates')
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'rooms',
-          filter: `pin=eq.${myPin}`,
-        },
-        async (payload) => {
-          const { answer, peer_public_key } = payload.new as any;
-          if (answer && peer_public_key) {
-            try {
-              await webrtc.handleAnswer(answer, peer_public_key);
-            } catch (error) {
-              console.error('Failed to handle answer:', error);
-              toast.error('Connection failed');
-            }
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [mode, myPin]);
+    if (mode !== 'waiting' || !myPin || groupRoom) return;
+
+    return signaling.onAnswer(myPin, async (answer) => {
+      try {
+        await webrtc.handleAnswer(answer.sdp, answer.publicKey);
+      } catch (error) {
+        console.error('Failed to handle answer:', error);
+        toast.error('Connection failed');
+      }
+    });
+  }, [webrtc, signaling, mode, myPin, groupRoom]);
 
   const handleJoinRoom = () => handleJoinWithPin(pin);
 
@@ -158,7 +184,10 @@ export function ConnectionPanel({ onConnected }: ConnectionPanelProps) {
             onClose={() => setShowScanner(false)}
           />
         )}
-        <div className="glass rounded-2xl p-8 max-w-md w-full mx-4">
+        <div className="glass rounded-2xl p-8 max-w-md w-full mx-4 relative">
+          <div className="absolute top-4 right-4">
+            <SettingsDialog />
+          </div>
           <h2 className="text-2xl font-semibold text-foreground mb-2 text-center">
             Start Transfer
           </h2>
@@ -172,7 +201,25 @@ export function ConnectionPanel({ onConnected }: ConnectionPanelProps) {
               className="w-full h-14 text-lg bg-primary hover:bg-primary/90 text-primary-foreground glow-primary transition-all"
             >
               <Link2 className="w-5 h-5 mr-2" />
-              Create Room
+              {groupRoom ? 'Create Group Room' : 'Create Room'}
+            </Button>
+
+            <div className="flex items-center justify-center gap-2">
+              <Switch id="group-room" checked={groupRoom} onCheckedChange={setGroupRoom} />
+              <Label htmlFor="group-room" className="text-sm text-muted-foreground flex items-center gap-1">
+                <Users className="w-4 h-4" />
+                Let up to {MAX_GROUP_PEERS} devices join
+              </Label>
+            </div>
+
+            <Button variant="ghost" onClick={onSeed} className="w-full text-muted-foreground">
+              <Sprout className="w-4 h-4 mr-2" />
+              Seed files to anyone who joins
+            </Button>
+
+            <Button variant="ghost" onClick={() => setMode('manual')} className="w-full text-muted-foreground">
+              <WifiOff className="w-4 h-4 mr-2" />
+              Pair without a server
             </Button>
             
             <div className="relative">
@@ -218,12 +265,33 @@ export function ConnectionPanel({ onConnected }: ConnectionPanelProps) {
                 </Button>
               </div>
             </div>
+
+            {unfinished.length > 0 && (
+              <div className="rounded-xl border border-warning/30 bg-warning/5 p-3 space-y-1">
+                <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                  <PauseCircle className="w-4 h-4 text-warning" />
+                  {unfinished.length} unfinished download{unfinished.length === 1 ? '' : 's'}
+                </div>
+                {unfinished.map(transfer => (
+                  <p key={transfer.id} className="text-xs text-muted-foreground truncate">
+                    {transfer.name} · {transfer.progress}%
+                  </p>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  These continue automatically when the same sender reconnects.
+                </p>
+              </div>
+            )}
           </div>
         </div>
       </>
     );
   }
 
+  if (mode === 'manual') {
+    return <ManualPairing onStarted={listenForConnection} onClose={() => setMode('idle')} />;
+  }
+
   if (mode === 'creating' || mode === 'joining') {
     return (
       <div className="glass rounded-2xl p-8 max-w-md w-full mx-4 text-center">
@@ -300,7 +368,7 @@ export function ConnectionPanel({ onConnected }: ConnectionPanelProps) {
         
         <div className="flex items-center justify-center gap-2 text-muted-foreground">
           <Loader2 className="w-4 h-4 animate-spin" />
-          <span className="text-sm">Waiting for peer...</span>
+          <span className="text-sm">{groupRoom ? 'Waiting for the first device...' : 'Waiting for peer...'}</span>
         </div>
       </div>
     );
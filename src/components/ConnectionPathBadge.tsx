@@ -0,0 +1,37 @@
+import { House, Globe, Server } from 'lucide-react';
+import { isLocalPath, isRelayedPath, type ConnectionPath } from '@/lib/iceServers';
+
+interface ConnectionPathBadgeProps {
+  path: ConnectionPath;
+  // Icon and short label only, for lists
+  compact?: boolean;
+}
+
+function describePath(path: ConnectionPath) {
+  if (isRelayedPath(path)) return { label: 'Relayed', icon: Server, hint: 'Through a TURN server; neither device sees the other\'s address' };
+  if (isLocalPath(path)) return { label: 'Local network', icon: House, hint: 'Directly over your local network' };
+  return { label: 'Direct', icon: Globe, hint: 'Directly over the internet' };
+}
+
+// Which way the connection actually goes, as ICE picked it
+export function ConnectionPathBadge({ path, compact }: ConnectionPathBadgeProps) {
+  const { label, icon: Icon, hint } = describePath(path);
+  const title = `${hint} (${path.local} → ${path.remote}, ${path.protocol})`;
+
+  if (compact) {
+    return (
+      <span className="flex items-center gap-1 text-muted-foreground" title={title}>
+        <Icon className="w-3.5 h-3.5" />
+        {label}
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-secondary/50 border border-border" title={title}>
+      <Icon className="w-4 h-4 text-muted-foreground" />
+      <span className="text-sm font-medium text-foreground">{label}</span>
+      <span className="text-xs text-muted-foreground font-mono">{path.local}/{path.remote}</span>
+    </div>
+  );
+}
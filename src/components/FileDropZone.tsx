@@ -1,14 +1,19 @@
-import { useState, useCallback } from 'react';
-import { Upload, File } from 'lucide-react';
+import { useState, useCallback, useRef } from 'react';
+import { Upload, File, FolderOpen } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { collectDroppedFiles, filesFromInput, type SelectedFile } from '@/lib/folders';
 
 interface FileDropZoneProps {
-  onFilesSelected: (files: File[]) => void;
+  onFilesSelected: (files: SelectedFile[]) => void;
   disabled?: boolean;
 }
 
+// React doesn't know the non-standard folder picker attribute
+const folderInputProps = { webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
 export function FileDropZone({ onFilesSelected, disabled }: FileDropZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
+  const folderInput = useRef<HTMLInputElement>(null);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -36,16 +41,22 @@ export function FileDropZone({ onFilesSelected, disabled }: FileDropZoneProps) {
 
     if (disabled) return;
 
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      onFilesSelected(files);
-    }
+    // Dropped folders are walked so their files keep relative paths
+    collectDroppedFiles(e.dataTransfer)
+      .then(files => {
+        if (files.length > 0) onFilesSelected(files);
+      })
+      .catch(error => {
+        console.error('Failed to read dropped files:', error);
+      });
   }, [disabled, onFilesSelected]);
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFilesSelected(Array.from(e.target.files));
+      onFilesSelected(filesFromInput(e.target.files));
     }
+    // Allow picking the same files or folder again
+    e.target.value = '';
   };
 
   return (
@@ -88,7 +99,25 @@ export function FileDropZone({ onFilesSelected, disabled }: FileDropZoneProps) {
             or click to browse
           </p>
         </div>
+        <button
+          type="button"
+          onClick={() => folderInput.current?.click()}
+          disabled={disabled}
+          className="relative z-10 pointer-events-auto flex items-center gap-1.5 text-sm text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          <FolderOpen className="w-4 h-4" />
+          Choose a folder
+        </button>
       </div>
+      <input
+        ref={folderInput}
+        type="file"
+        multiple
+        {...folderInputProps}
+        onChange={handleFileInput}
+        className="hidden"
+        disabled={disabled}
+      />
     </div>
   );
 }
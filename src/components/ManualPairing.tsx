@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, Copy, CheckCircle2, Loader2, ScanLine, WifiOff } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { toast } from 'sonner';
+import { usePeerSession } from '@/hooks/use-peer-session';
+import { ConnectionPolicyError } from '@/lib/iceServers';
+import { decodeSignal, encodeSignal, encodeSignalForQR, type ManualSignal, type SignalKind } from '@/lib/manualSignaling';
+import { QRScanner } from './QRScanner';
+
+interface ManualPairingProps {
+  // Called once our side of the connection is set up, before it opens
+  onStarted: () => void;
+  onClose: () => void;
+}
+
+interface PairingCode {
+  text: string;
+  parts: string[];
+}
+
+type PairingStep = 'choose' | 'starting' | 'offered' | 'answered';
+
+// How long each part of a multi-part QR code stays on screen
+const QR_PART_INTERVAL_MS = 800;
+
+async function toPairingCode(signal: ManualSignal): Promise<PairingCode> {
+  const [text, parts] = await Promise.all([encodeSignal(signal), encodeSignalForQR(signal)]);
+  return { text, parts };
+}
+
+// Shows our code as a QR sequence that cycles through its parts, plus a
+// copyable string
+function PairingCodeView({ code }: { code: PairingCode }) {
+  const [part, setPart] = useState(0);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setPart(0);
+    if (code.parts.length < 2) return;
+    const timer = setInterval(() => setPart(index => (index + 1) % code.parts.length), QR_PART_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [code]);
+
+  const copyCode = () => {
+    navigator.clipboard.writeText(code.text);
+    setCopied(true);
+    toast.success('Pairing code copied!');
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="bg-white p-4 rounded-xl inline-block">
+        <QRCodeSVG value={code.parts[part]} size={220} level="M" includeMargin={false} />
+      </div>
+      {code.parts.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          Code {part + 1} of {code.parts.length}, scan until all are read
+        </p>
+      )}
+      <Button variant="outline" size="sm" onClick={copyCode}>
+        {copied ? <CheckCircle2 className="w-4 h-4 mr-1 text-green-500" /> : <Copy className="w-4 h-4 mr-1" />}
+        Copy as text
+      </Button>
+    </div>
+  );
+}
+
+// Pair two devices with no signaling server: the offer and the answer are
+// carried across by QR code or copy and paste
+export function ManualPairing({ onStarted, onClose }: ManualPairingProps) {
+  const webrtc = usePeerSession();
+  const [step, setStep] = useState<PairingStep>('choose');
+  const [myCode, setMyCode] = useState<PairingCode | null>(null);
+  const [input, setInput] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const handleShowOffer = async () => {
+    setStep('starting');
+    try {
+      onStarted();
+      const { offer, publicKey } = await webrtc.createOffer();
+      setMyCode(await toPairingCode({ kind: 'offer', description: { sdp: offer, publicKey } }));
+      setStep('offered');
+    } catch (error) {
+      console.error('Failed to create pairing code:', error);
+      toast.error('Failed to create pairing code', { description: error instanceof ConnectionPolicyError ? error.message : undefined });
+      setStep('choose');
+    }
+  };
+
+  // The other device's code: an offer when we answer, an answer when we offered
+  const handleCode = async (text: string) => {
+    const expected: SignalKind = step === 'offered' ? 'answer' : 'offer';
+    setShowScanner(false);
+    setBusy(true);
+    try {
+      let signal: ManualSignal;
+      try {
+        signal = await decodeSignal(text);
+      } catch {
+        toast.error('That is not a pairing code');
+        return;
+      }
+      if (signal.kind !== expected) {
+        toast.error(expected === 'answer' ? 'Enter the code the other device shows after scanning yours' : 'Enter the first code the other device shows');
+        return;
+      }
+
+      if (expected === 'answer') {
+        await webrtc.handleAnswer(signal.description.sdp, signal.description.publicKey);
+        return;
+      }
+      onStarted();
+      const { answer, publicKey } = await webrtc.handleOffer(signal.description.sdp, signal.description.publicKey);
+      setMyCode(await toPairingCode({ kind: 'answer', description: { sdp: answer, publicKey } }));
+      setInput('');
+      setStep('answered');
+    } catch (error) {
+      console.error('Failed to pair:', error);
+      toast.error('Connection failed', { description: error instanceof ConnectionPolicyError ? error.message : undefined });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (step !== 'choose') webrtc.disconnect();
+    onClose();
+  };
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder="Paste the other device's code (p2ps:...)"
+        className="font-mono text-xs h-20"
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" className="h-10 px-4" onClick={() => setShowScanner(true)} disabled={busy}>
+          <ScanLine className="w-5 h-5" />
+        </Button>
+        <Button variant="secondary" className="flex-1 h-10" onClick={() => handleCode(input)} disabled={!input.trim() || busy}>
+          {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Connect
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      {showScanner && (
+        <QRScanner
+          onPairingCode={handleCode}
+          onClose={() => setShowScanner(false)}
+        />
+      )}
+      <div className="glass rounded-2xl p-6 max-w-md w-full mx-4 space-y-5">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={handleBack} aria-label="Back">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+              <WifiOff className="w-5 h-5 text-primary" />
+              Pair without a server
+            </h2>
+            <p className="text-xs text-muted-foreground">
+              Swap codes by scanning or pasting; works on a network with no internet
+            </p>
+          </div>
+        </div>
+
+        {step === 'choose' && (
+          <div className="space-y-4">
+            <Button onClick={handleShowOffer} className="w-full h-12">
+              Show my code
+            </Button>
+            <p className="text-xs text-muted-foreground text-center">
+              or enter the code shown on the other device
+            </p>
+            {codeInput}
+          </div>
+        )}
+
+        {step === 'starting' && (
+          <div className="text-center py-6">
+            <Loader2 className="w-10 h-10 mx-auto mb-3 text-primary animate-spin" />
+            <p className="text-sm text-muted-foreground">Gathering network addresses...</p>
+          </div>
+        )}
+
+        {step === 'offered' && myCode && (
+          <div className="space-y-4">
+            <p className="text-sm text-foreground text-center">1. Scan or copy this on the other device</p>
+            <PairingCodeView code={myCode} />
+            <p className="text-sm text-foreground text-center">2. Enter the code it shows back</p>
+            {codeInput}
+          </div>
+        )}
+
+        {step === 'answered' && myCode && (
+          <div className="space-y-4">
+            <p className="text-sm text-foreground text-center">Scan or copy this back on the first device</p>
+            <PairingCodeView code={myCode} />
+            <div className="flex items-center justify-center gap-2 text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span className="text-sm">Waiting for the other device...</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
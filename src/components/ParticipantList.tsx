@@ -0,0 +1,52 @@
+import type { Participant } from '@/lib/peerRoom';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Users, Monitor, Loader2 } from 'lucide-react';
+import { ConnectionPathBadge } from './ConnectionPathBadge';
+
+interface ParticipantListProps {
+  participants: Participant[];
+  // Participants left out of the next send
+  excluded: Set<string>;
+  onToggle: (participant: Participant, included: boolean) => void;
+}
+
+export function ParticipantList({ participants, excluded, onToggle }: ParticipantListProps) {
+  const included = participants.filter(p => !excluded.has(p.id)).length;
+
+  return (
+    <div className="rounded-xl border border-border p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Users className="w-4 h-4" />
+        <span>{participants.length} connected</span>
+        <span className="ml-auto text-xs">
+          {included === participants.length ? 'Sending to everyone' : `Sending to ${included} of ${participants.length}`}
+        </span>
+      </div>
+      {participants.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Waiting for devices to join…</p>
+      ) : (
+        <ul className="flex flex-wrap gap-2">
+          {participants.map((participant) => (
+            <li key={participant.id}>
+              <label className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-secondary/50 text-xs text-foreground cursor-pointer">
+                <Checkbox
+                  checked={!excluded.has(participant.id)}
+                  onCheckedChange={(checked) => onToggle(participant, checked === true)}
+                  aria-label={`Send to ${participant.name}`}
+                />
+                <Monitor className="w-3.5 h-3.5 text-muted-foreground" />
+                {participant.name}
+                {participant.reconnecting && (
+                  <Loader2 className="w-3.5 h-3.5 text-warning animate-spin" aria-label="Reconnecting" />
+                )}
+                {participant.path && !participant.reconnecting && (
+                  <ConnectionPathBadge path={participant.path} compact />
+                )}
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { useMemo, type ReactNode } from 'react';
+import { webrtc, type WebRTCManager } from '@/lib/webrtc';
+import { peerRoom, PeerRoom } from '@/lib/peerRoom';
+import { PeerRoomContext, PeerSessionContext } from '@/hooks/use-peer-session';
+
+interface PeerSessionProviderProps {
+  // Defaults to the shared instance; pass your own to configure ICE
+  // servers, signaling or the encryption policy
+  manager?: WebRTCManager;
+  children: ReactNode;
+}
+
+export function PeerSessionProvider({ manager = webrtc, children }: PeerSessionProviderProps) {
+  const room = useMemo(() => (manager === webrtc ? peerRoom : new PeerRoom(manager)), [manager]);
+
+  return (
+    <PeerSessionContext.Provider value={manager}>
+      <PeerRoomContext.Provider value={room}>
+        {children}
+      </PeerRoomContext.Provider>
+    </PeerSessionContext.Provider>
+  );
+}
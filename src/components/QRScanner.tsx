@@ -2,17 +2,25 @@ import { useEffect, useRef, useState } from 'react';
 import { Html5Qrcode } from 'html5-qrcode';
 import { Button } from '@/components/ui/button';
 import { X, Camera, CameraOff } from 'lucide-react';
+import { QRSequence, isQRSignalPart } from '@/lib/manualSignaling';
 
 interface QRScannerProps {
-  onScan: (data: string) => void;
+  // Called with a room PIN
+  onScan?: (data: string) => void;
+  // Called with a whole pairing code once every part of its sequence is in
+  onPairingCode?: (code: string) => void;
   onClose: () => void;
 }
 
-export function QRScanner({ onScan, onClose }: QRScannerProps) {
+export function QRScanner({ onScan, onPairingCode, onClose }: QRScannerProps) {
   const [error, setError] = useState<string | null>(null);
   const [isStarting, setIsStarting] = useState(true);
+  // Parts of a multi-part pairing code seen so far
+  const [partsProgress, setPartsProgress] = useState<{ received: number; total: number } | null>(null);
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const sequenceRef = useRef(new QRSequence());
+  const pairedRef = useRef(false);
 
   useEffect(() => {
     const scanner = new Html5Qrcode('qr-reader');
@@ -27,6 +35,20 @@ export function QRScanner({ onScan, onClose }: QRScannerProps) {
             qrbox: { width: 250, height: 250 },
           },
           (decodedText) => {
+            if (isQRSignalPart(decodedText)) {
+              // The camera keeps reporting codes; only the first complete sequence counts
+              if (!onPairingCode || pairedRef.current) return;
+              const sequence = sequenceRef.current;
+              const code = sequence.add(decodedText);
+              setPartsProgress({ received: sequence.received, total: sequence.total });
+              if (code) {
+                pairedRef.current = true;
+                onPairingCode(code);
+              }
+              return;
+            }
+            if (!onScan) return;
+
             // Extract PIN from QR data (format: p2p:123456)
             const match = decodedText.match(/p2p:(\d{6})/);
             if (match) {
@@ -53,7 +75,7 @@ export function QRScanner({ onScan, onClose }: QRScannerProps) {
         scannerRef.current.stop().catch(console.error);
       }
     };
-  }, [onScan]);
+  }, [onScan, onPairingCode]);
 
   return (
     <div className="fixed inset-0 z-50 bg-background/95 backdrop-blur-sm flex flex-col items-center justify-center p-4">
@@ -92,9 +114,15 @@ export function QRScanner({ onScan, onClose }: QRScannerProps) {
           </div>
         )}
 
-        <p className="text-xs text-muted-foreground text-center mt-4">
-          Point your camera at a QR code to connect
-        </p>
+        {partsProgress && partsProgress.total > 1 ? (
+          <p className="text-xs text-muted-foreground text-center mt-4">
+            Scanned {partsProgress.received} of {partsProgress.total} codes, keep the camera on the screen
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground text-center mt-4">
+            Point your camera at a QR code to connect
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileDropZone } from './FileDropZone';
+import { Sprout, X, ArrowLeft, Loader2, Clock, Users, CheckCircle2, Monitor } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { toast } from 'sonner';
+import type { SelectedFile } from '@/lib/folders';
+import { SeedRoom, type SeedJoiner, type SeedState } from '@/lib/seedRoom';
+import { usePeerRoom } from '@/hooks/use-peer-session';
+import { formatDuration, formatFileSize, generatePin } from '@/lib/utils';
+
+interface SeedPanelProps {
+  onClose: () => void;
+}
+
+const LIFETIMES = [15, 30, 60, 120, 240];
+
+const JOINER_STATE: Record<SeedJoiner['state'], string> = {
+  queued: 'Waiting',
+  serving: 'Downloading',
+  served: 'Done',
+  left: 'Left',
+};
+
+export function SeedPanel({ onClose }: SeedPanelProps) {
+  const room = usePeerRoom();
+  const [files, setFiles] = useState<SelectedFile[]>([]);
+  const [maxJoiners, setMaxJoiners] = useState(10);
+  const [lifetime, setLifetime] = useState(60);
+  const [sequential, setSequential] = useState(false);
+  const [seed, setSeed] = useState<SeedRoom | null>(null);
+  const [state, setState] = useState<SeedState | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!seed) return;
+    const unsubscribe = seed.on('update', setState);
+    return () => {
+      unsubscribe();
+      seed.stop();
+    };
+  }, [seed]);
+
+  // Tick the countdown while the room admits joiners
+  useEffect(() => {
+    if (!state?.open) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state?.open]);
+
+  const handleStart = async () => {
+    const next = new SeedRoom(room, files, {
+      maxJoiners,
+      lifetimeMinutes: lifetime,
+      mode: sequential ? 'sequential' : 'concurrent',
+    });
+    setStarting(true);
+    try {
+      await next.start(generatePin());
+      setState(next.getState());
+      setSeed(next);
+    } catch (error) {
+      console.error('Failed to start seeding:', error);
+      toast.error('Failed to create seeding room');
+      next.stop();
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleStop = () => {
+    setSeed(null);
+    onClose();
+  };
+
+  if (!seed || !state) {
+    return (
+      <div className="glass rounded-2xl p-6 max-w-2xl w-full mx-4 space-y-5">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Back">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+              <Sprout className="w-5 h-5 text-success" />
+              Seed files
+            </h2>
+            <p className="text-xs text-muted-foreground">
+              Everyone who joins the room is offered these files automatically
+            </p>
+          </div>
+        </div>
+
+        <FileDropZone onFilesSelected={(selected) => setFiles(prev => [...prev, ...selected])} />
+
+        {files.length > 0 && (
+          <ul className="space-y-1.5 max-h-40 overflow-y-auto">
+            {files.map(({ file, path }, index) => (
+              <li key={`${path ?? file.name}-${index}`} className="flex items-center gap-3 text-sm">
+                <span className="truncate flex-1 text-foreground">{path ?? file.name}</span>
+                <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="seed-max-joiners">Devices</Label>
+            <Input
+              id="seed-max-joiners"
+              type="number"
+              min={1}
+              max={50}
+              value={maxJoiners}
+              onChange={(e) => setMaxJoiners(Math.min(50, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Open for</Label>
+            <Select value={String(lifetime)} onValueChange={(value) => setLifetime(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LIFETIMES.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch id="seed-sequential" checked={sequential} onCheckedChange={setSequential} />
+          <Label htmlFor="seed-sequential" className="text-sm text-muted-foreground">
+            Serve one device at a time
+          </Label>
+        </div>
+
+        <Button className="w-full" onClick={handleStart} disabled={files.length === 0 || starting}>
+          {starting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sprout className="w-4 h-4 mr-2" />}
+          Start seeding
+        </Button>
+      </div>
+    );
+  }
+
+  const served = state.joiners.filter(joiner => joiner.state === 'served').length;
+
+  return (
+    <div className="glass rounded-2xl p-6 max-w-2xl w-full mx-4 space-y-5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+            <Sprout className="w-5 h-5 text-success" />
+            Seeding {state.files.length === 1 ? state.files[0].name : `${state.files.length} files`}
+          </h2>
+          <p className="text-xs text-muted-foreground flex items-center gap-3 mt-1">
+            <span className="flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {state.open ? `Closes in ${formatDuration((state.expiresAt - now) / 1000)}` : 'Closed to new devices'}
+            </span>
+            <span className="flex items-center gap-1">
+              <Users className="w-3 h-3" />
+              {state.joiners.length} of {seed.options.maxJoiners} joined · {served} done
+            </span>
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleStop}
+          className="text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+        >
+          <X className="w-4 h-4 mr-1" />
+          Stop seeding
+        </Button>
+      </div>
+
+      {state.open && state.pin && (
+        <div className="flex items-center gap-6">
+          <div className="bg-white p-3 rounded-xl">
+            <QRCodeSVG value={`p2p:${state.pin}`} size={120} level="M" includeMargin={false} />
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Join with PIN</p>
+            <p className="text-3xl font-mono font-bold text-primary tracking-widest">{state.pin}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">Devices</p>
+        {state.joiners.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Nobody has joined yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {state.joiners.map((joiner) => (
+              <li key={joiner.participantId} className="glass rounded-xl p-3 space-y-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <Monitor className="w-4 h-4 text-muted-foreground" />
+                  <span className="font-medium text-foreground">{joiner.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    joined {new Date(joiner.joinedAt).toLocaleTimeString()}
+                  </span>
+                  <span className="ml-auto text-xs text-muted-foreground">{JOINER_STATE[joiner.state]}</span>
+                </div>
+                <ul className="space-y-1">
+                  {state.files.map((file) => {
+                    const recipient = file.recipients?.find(r => r.participantId === joiner.participantId);
+                    return (
+                      <li key={file.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="truncate flex-1">{file.path ?? file.name}</span>
+                        {recipient?.status === 'completed' ? (
+                          <CheckCircle2 className="w-4 h-4 text-success shrink-0" />
+                        ) : recipient?.status === 'transferring' || recipient?.status === 'paused' ? (
+                          <Progress value={recipient.progress} className="h-1 w-24 shrink-0" />
+                        ) : (
+                          <span className="shrink-0">
+                            {recipient?.status === 'declined' ? 'Declined' : recipient?.status === 'error' ? 'Failed' : '—'}
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Settings } from 'lucide-react';
+import { toast } from 'sonner';
+import { usePeerSession } from '@/hooks/use-peer-session';
+import {
+  createSignaling,
+  isSignalingUrl,
+  loadConnectionSettings,
+  saveConnectionSettings,
+} from '@/lib/connectionSettings';
+import { formatIceServers, parseIceServers, type ConnectionPolicy } from '@/lib/iceServers';
+
+const POLICIES: Array<{ value: ConnectionPolicy; label: string; description: string }> = [
+  { value: 'direct', label: 'Direct preferred', description: 'Connect directly where possible, through a TURN server otherwise' },
+  { value: 'lan', label: 'Local network only', description: 'Only connect to devices on your network; nothing goes over the internet' },
+  { value: 'relay', label: 'Relay only', description: 'Always go through a TURN server so the other device never sees your IP address' },
+];
+
+// Connection settings; changes apply to the next room
+export function SettingsDialog() {
+  const webrtc = usePeerSession();
+  const [open, setOpen] = useState(false);
+  const [signalingUrl, setSignalingUrl] = useState('');
+  const [iceServers, setIceServers] = useState('');
+  const [turnCredentials, setTurnCredentials] = useState(false);
+  const [connectionPolicy, setConnectionPolicy] = useState<ConnectionPolicy>('direct');
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      const settings = loadConnectionSettings();
+      setSignalingUrl(settings.signalingUrl);
+      setIceServers(formatIceServers(settings.iceServers));
+      setTurnCredentials(settings.turnCredentials);
+      setConnectionPolicy(settings.connectionPolicy);
+    }
+    setOpen(next);
+  };
+
+  const handleSave = () => {
+    const url = signalingUrl.trim();
+    if (url && !isSignalingUrl(url)) {
+      toast.error('Enter a ws:// or wss:// address');
+      return;
+    }
+
+    let servers: RTCIceServer[];
+    try {
+      servers = parseIceServers(iceServers);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid ICE server list');
+      return;
+    }
+
+    const settings = { ...loadConnectionSettings(), signalingUrl: url, iceServers: servers, turnCredentials, connectionPolicy };
+    saveConnectionSettings(settings);
+    webrtc.setSignaling(createSignaling(settings));
+    toast.success(url ? 'Pairing through your signaling server' : 'Pairing through the hosted service');
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Settings">
+          <Settings className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>How devices find each other before files flow directly</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="signaling-url">Signaling server</Label>
+          <Input
+            id="signaling-url"
+            value={signalingUrl}
+            onChange={(e) => setSignalingUrl(e.target.value)}
+            placeholder="ws://192.168.1.10:8787"
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Leave empty to use the hosted service. To pair only within your network, run{' '}
+            <code className="font-mono">npm run signaling-server</code> on a machine there and enter its address.
+            Both devices need the same server.
+          </p>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="connection-policy">Connection</Label>
+          <Select value={connectionPolicy} onValueChange={(value) => setConnectionPolicy(value as ConnectionPolicy)}>
+            <SelectTrigger id="connection-policy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {POLICIES.map(policy => (
+                <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {POLICIES.find(policy => policy.value === connectionPolicy)?.description}
+          </p>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="ice-servers">STUN / TURN servers</Label>
+          <Textarea
+            id="ice-servers"
+            value={iceServers}
+            onChange={(e) => setIceServers(e.target.value)}
+            placeholder={'stun:stun.example.com:3478\nturn:turn.example.com:3478 username credential'}
+            className="font-mono text-xs h-24"
+          />
+          <p className="text-xs text-muted-foreground">
+            One per line, TURN servers followed by their username and credential. Leave empty for the defaults.
+          </p>
+        </div>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="turn-credentials">Temporary TURN credentials</Label>
+            <p className="text-xs text-muted-foreground">
+              Fetch short-lived credentials for the deployment's TURN server before each connection
+            </p>
+          </div>
+          <Switch id="turn-credentials" checked={turnCredentials} onCheckedChange={setTurnCredentials} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
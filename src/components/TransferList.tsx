@@ -1,36 +1,115 @@
+import { useState } from 'react';
 import { FileTransfer } from '@/lib/webrtc';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
-import { File, Download, CheckCircle2, Loader2, ArrowUpCircle, ArrowDownCircle } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { Checkbox } from '@/components/ui/checkbox';
+import { File, Download, CheckCircle2, Loader2, ArrowUpCircle, ArrowDownCircle, HardDrive, PauseCircle, RotateCw, ShieldAlert, Pause, X, Ban, XCircle, FolderArchive, Archive } from 'lucide-react';
+import { cn, formatFileSize } from '@/lib/utils';
+import { createZipStream, type ZipEntry } from '@/lib/zip';
+import { isCompressedFormat } from '@/lib/compression';
+import { downloadBlob, saveStream } from '@/lib/fileSink';
+import { toast } from 'sonner';
+import { BatchProgress } from './BatchProgress';
 
 interface TransferListProps {
   transfers: FileTransfer[];
   direction: 'sending' | 'receiving';
+  onPause?: (transfer: FileTransfer) => void;
+  onResume?: (transfer: FileTransfer) => void;
+  onCancel?: (transfer: FileTransfer) => void;
+  onRepair?: (transfer: FileTransfer) => void;
 }
 
-function formatFileSize(bytes: number): string {
-  if (bytes === 0) return '0 B';
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+// Per-recipient labels; transferring shows a percentage instead
+const RECIPIENT_STATUS: Partial<Record<FileTransfer['status'], string>> = {
+  pending: 'Waiting',
+  paused: 'Paused',
+  completed: 'Done',
+  corrupted: 'Corrupted',
+  cancelled: 'Cancelled',
+  declined: 'Declined',
+  error: 'Failed',
+};
+
+// Received files we hold a Blob for; picker and folder saves are already on disk
+function isZippable(transfer: FileTransfer): boolean {
+  return transfer.status === 'completed' && !!transfer.data && transfer.sink !== 'picker' && transfer.sink !== 'directory';
+}
+
+// Archive entries keyed by relative path, renaming duplicates like "a (2).txt"
+function toZipEntries(transfers: FileTransfer[]): ZipEntry[] {
+  const used = new Set<string>();
+  return transfers.map((transfer) => {
+    const original = transfer.path ?? transfer.name;
+    // Only a dot inside the file name (not leading, not in a folder) starts an extension
+    const dot = original.lastIndexOf('.');
+    const hasExtension = dot > original.lastIndexOf('/') + 1;
+    const stem = hasExtension ? original.slice(0, dot) : original;
+    const ext = hasExtension ? original.slice(dot) : '';
+    let path = original;
+    for (let n = 2; used.has(path); n++) path = `${stem} (${n})${ext}`;
+    used.add(path);
+    return {
+      path,
+      data: transfer.data,
+      compress: !isCompressedFormat(transfer.name, transfer.type),
+    };
+  });
 }
 
-export function TransferList({ transfers, direction }: TransferListProps) {
+export function TransferList({ transfers, direction, onPause, onResume, onCancel, onRepair }: TransferListProps) {
+  // Completed files picked for "Download as ZIP"
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
   if (transfers.length === 0) return null;
 
+  const zippable = direction === 'receiving' ? transfers.filter(isZippable) : [];
+  const selectedZippable = zippable.filter(t => selected.has(t.id));
+  const canSelect = zippable.length > 1;
+
+  // Multi-file batches also get an aggregate progress bar
+  const batches = new Map<string, FileTransfer[]>();
+  transfers.forEach((transfer) => {
+    if (transfer.batchId) batches.set(transfer.batchId, [...(batches.get(transfer.batchId) ?? []), transfer]);
+  });
+
   const handleDownload = (transfer: FileTransfer) => {
-    if (transfer.data) {
-      const url = URL.createObjectURL(transfer.data);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = transfer.name;
-      a.click();
-      URL.revokeObjectURL(url);
+    // OPFS and in-memory sinks both hand back a Blob we can link to directly
+    if (transfer.data) downloadBlob(transfer.data, transfer.name);
+  };
+
+  // The archive is generated while it is being saved
+  const downloadZip = async (files: FileTransfer[], name: string) => {
+    try {
+      await saveStream(createZipStream(toZipEntries(files), { compression: 'deflate' }), name);
+    } catch (error) {
+      console.error('Failed to build zip:', error);
+      toast.error('Could not create the zip archive');
     }
   };
 
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  // A received folder that wasn't saved straight into a directory can be
+  // downloaded as one zip once every file is in
+  const canZipFolder = (files: FileTransfer[]) => {
+    const kept = files.filter(t => t.status !== 'cancelled' && t.status !== 'declined');
+    return direction === 'receiving' && kept.some(t => t.path) && kept.every(isZippable);
+  };
+
+  const handleDownloadFolder = (files: FileTransfer[]) => {
+    const kept = files.filter(isZippable);
+    const root = kept.find(t => t.path)?.path.split('/')[0] ?? 'files';
+    downloadZip(kept, `${root}.zip`);
+  };
+
   return (
     <div className="space-y-3">
       <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -40,36 +119,103 @@ export function TransferList({ transfers, direction }: TransferListProps) {
           <ArrowDownCircle className="w-4 h-4" />
         )}
         <span>{direction === 'sending' ? 'Sending' : 'Receiving'}</span>
+        {canSelect && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => downloadZip(selectedZippable.length > 0 ? selectedZippable : zippable, 'received-files.zip')}
+            className="ml-auto h-7 text-primary"
+          >
+            <Archive className="w-4 h-4 mr-1" />
+            {selectedZippable.length > 0 ? `Download ${selectedZippable.length} as ZIP` : 'Download all as ZIP'}
+          </Button>
+        )}
       </div>
+      {[...batches].map(([batchId, files]) => (
+        <div key={batchId} className="space-y-2 empty:hidden">
+          {files.length > 1 && <BatchProgress transfers={files} />}
+          {canZipFolder(files) && (
+            <Button size="sm" variant="secondary" onClick={() => handleDownloadFolder(files)}>
+              <FolderArchive className="w-4 h-4 mr-1" />
+              Download folder as ZIP
+            </Button>
+          )}
+        </div>
+      ))}
       {transfers.map((transfer) => (
         <div
           key={transfer.id}
           className="glass rounded-xl p-4 flex items-center gap-4"
         >
+          {canSelect && isZippable(transfer) && (
+            <Checkbox
+              checked={selected.has(transfer.id)}
+              onCheckedChange={(checked) => toggleSelected(transfer.id, checked === true)}
+              aria-label={`Select ${transfer.name}`}
+            />
+          )}
           <div className={cn(
             "w-10 h-10 rounded-lg flex items-center justify-center shrink-0",
-            transfer.status === 'completed' ? "bg-success/20" : "bg-secondary"
+            transfer.status === 'completed' ? "bg-success/20"
+              : transfer.status === 'corrupted' ? "bg-destructive/20"
+              : "bg-secondary"
           )}>
             {transfer.status === 'completed' ? (
               <CheckCircle2 className="w-5 h-5 text-success" />
             ) : transfer.status === 'transferring' ? (
               <Loader2 className="w-5 h-5 text-primary animate-spin" />
+            ) : transfer.status === 'paused' ? (
+              <PauseCircle className="w-5 h-5 text-warning" />
+            ) : transfer.status === 'corrupted' ? (
+              <ShieldAlert className="w-5 h-5 text-destructive" />
+            ) : transfer.status === 'cancelled' ? (
+              <Ban className="w-5 h-5 text-muted-foreground" />
+            ) : transfer.status === 'declined' ? (
+              <XCircle className="w-5 h-5 text-destructive" />
             ) : (
               <File className="w-5 h-5 text-muted-foreground" />
             )}
           </div>
           <div className="flex-1 min-w-0">
             <p className="text-sm font-medium text-foreground truncate">
-              {transfer.name}
+              {transfer.path ?? transfer.name}
             </p>
             <p className="text-xs text-muted-foreground">
               {formatFileSize(transfer.size)}
+              {transfer.status === 'corrupted' && (
+                <span className="text-destructive"> · Integrity check failed</span>
+              )}
+              {transfer.compressionRatio >= 1.1 && (
+                <span> · {transfer.compressionRatio.toFixed(1)}× compressed</span>
+              )}
+              {transfer.status === 'cancelled' && <span> · Cancelled</span>}
+              {transfer.status === 'declined' && (
+                <span className="text-destructive"> · Declined by receiver</span>
+              )}
+              {transfer.status === 'pending' && direction === 'sending' && <span> · Waiting for receiver</span>}
             </p>
-            {transfer.status === 'transferring' && (
+            {(transfer.status === 'transferring' || transfer.status === 'paused') && (
               <Progress value={transfer.progress} className="mt-2 h-1" />
             )}
+            {transfer.recipients?.length > 1 && (
+              <ul className="mt-2 space-y-1">
+                {transfer.recipients.map((recipient) => (
+                  <li key={recipient.participantId} className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="w-24 truncate">{recipient.name}</span>
+                    <Progress value={recipient.progress} className="h-1 flex-1" />
+                    <span className="w-20 text-right">{RECIPIENT_STATUS[recipient.status] ?? `${recipient.progress}%`}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
-          {transfer.status === 'completed' && direction === 'receiving' && transfer.data && (
+          {transfer.status === 'completed' && direction === 'receiving' && (transfer.sink === 'picker' || transfer.sink === 'directory') && (
+            <span className="flex items-center gap-1 text-xs text-success shrink-0">
+              <HardDrive className="w-4 h-4" />
+              Saved
+            </span>
+          )}
+          {transfer.status === 'completed' && direction === 'receiving' && transfer.data && transfer.sink !== 'picker' && transfer.sink !== 'directory' && (
             <Button
               size="icon"
               variant="ghost"
@@ -84,6 +230,50 @@ export function TransferList({ transfers, direction }: TransferListProps) {
               {transfer.progress}%
             </span>
           )}
+          {transfer.status === 'transferring' && onPause && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => onPause(transfer)}
+              className="shrink-0"
+              aria-label="Pause"
+            >
+              <Pause className="w-4 h-4" />
+            </Button>
+          )}
+          {transfer.status === 'paused' && transfer.resumable && onResume && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onResume(transfer)}
+              className="shrink-0 text-warning"
+            >
+              <RotateCw className="w-4 h-4 mr-1" />
+              Resume
+            </Button>
+          )}
+          {transfer.status === 'corrupted' && onRepair && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onRepair(transfer)}
+              className="shrink-0 text-destructive"
+            >
+              <RotateCw className="w-4 h-4 mr-1" />
+              Re-request
+            </Button>
+          )}
+          {(transfer.status === 'transferring' || transfer.status === 'paused') && onCancel && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => onCancel(transfer)}
+              className="shrink-0 text-muted-foreground hover:text-destructive"
+              aria-label="Cancel"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
         </div>
       ))}
     </div>
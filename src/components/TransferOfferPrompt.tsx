@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { TransferOffer } from '@/lib/webrtc';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Inbox, Check, X, ShieldCheck, FolderInput, FileDown } from 'lucide-react';
+import { formatFileSize } from '@/lib/utils';
+import { canPickDirectory, canPickSaveFile, pickSaveDirectory, pickSaveFile, type SaveDestination } from '@/lib/fileSink';
+
+interface TransferOfferPromptProps {
+  offer: TransferOffer;
+  // `destination` is set when the user chose where to save the files
+  onAccept: (offer: TransferOffer, fileIds: string[], destination?: SaveDestination) => void;
+  onDecline: (offer: TransferOffer) => void;
+  onAlwaysAccept: (offer: TransferOffer, fileIds: string[]) => void;
+}
+
+export function TransferOfferPrompt({ offer, onAccept, onDecline, onAlwaysAccept }: TransferOfferPromptProps) {
+  // Every file is selected until the user unticks it
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(offer.files.map(file => file.id)));
+
+  const selectedFiles = offer.files.filter(file => selected.has(file.id));
+  const selectedSize = selectedFiles.reduce((acc, file) => acc + file.size, 0);
+  const count = offer.files.length;
+  const fileIds = selectedFiles.map(file => file.id);
+  const isFolder = offer.files.some(file => file.path);
+
+  // Pickers need the click's user activation, so they're shown here rather
+  // than when the files start arriving
+  const handleSaveToFolder = async () => {
+    const directory = await pickSaveDirectory();
+    if (directory) onAccept(offer, fileIds, { kind: 'directory', directory });
+  };
+
+  const handleSaveAs = async () => {
+    const handle = await pickSaveFile(selectedFiles[0].name);
+    if (handle) onAccept(offer, fileIds, { kind: 'file', handle });
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="glass rounded-xl p-4 border border-primary/30 space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center shrink-0">
+          <Inbox className="w-5 h-5 text-primary" />
+        </div>
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-foreground">
+            Incoming {count === 1 ? 'file' : `${count} files`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {formatFileSize(offer.totalSize)} total · Nothing is received until you accept
+          </p>
+        </div>
+      </div>
+
+      <ul className="space-y-1.5 max-h-40 overflow-y-auto">
+        {offer.files.map((file) => (
+          <li key={file.id} className="flex items-center gap-3 text-xs">
+            {count > 1 && (
+              <Checkbox
+                checked={selected.has(file.id)}
+                onCheckedChange={(checked) => toggle(file.id, checked === true)}
+                aria-label={`Receive ${file.name}`}
+              />
+            )}
+            <span className="truncate text-foreground flex-1">{file.path ?? file.name}</span>
+            <span className="text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => onAccept(offer, fileIds)} disabled={fileIds.length === 0}>
+          <Check className="w-4 h-4 mr-1" />
+          {count > 1 ? `Accept ${fileIds.length} (${formatFileSize(selectedSize)})` : 'Accept'}
+        </Button>
+        {isFolder && canPickDirectory() && (
+          <Button size="sm" variant="secondary" onClick={handleSaveToFolder} disabled={fileIds.length === 0}>
+            <FolderInput className="w-4 h-4 mr-1" />
+            Save into folder…
+          </Button>
+        )}
+        {fileIds.length === 1 && canPickSaveFile() && (
+          <Button size="sm" variant="secondary" onClick={handleSaveAs}>
+            <FileDown className="w-4 h-4 mr-1" />
+            Save as…
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={() => onDecline(offer)}>
+          <X className="w-4 h-4 mr-1" />
+          Decline
+        </Button>
+        {/* Only devices that proved their identity key can be trusted */}
+        {offer.senderIdentity && (
+          <Button size="sm" variant="ghost" onClick={() => onAlwaysAccept(offer, fileIds)} disabled={fileIds.length === 0}>
+            <ShieldCheck className="w-4 h-4 mr-1" />
+            Always accept from this device
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
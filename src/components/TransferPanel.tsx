@@ -1,8 +1,16 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { FileDropZone } from './FileDropZone';
+import type { SelectedFile } from '@/lib/folders';
+import { SavePermissionError, type SaveDestination } from '@/lib/fileSink';
 import { TransferList } from './TransferList';
-import { webrtc, FileTransfer, ConnectionStats } from '@/lib/webrtc';
+import { TransferOfferPrompt } from './TransferOfferPrompt';
+import { ParticipantList } from './ParticipantList';
+import { ConnectionPathBadge } from './ConnectionPathBadge';
+import { FileTransfer, TransferInterruptedError, TransferOffer } from '@/lib/webrtc';
+import type { Participant } from '@/lib/peerRoom';
+import { contentIdOf } from '@/lib/swarm';
+import { usePeerRoom, useParticipants, useTransfers, useConnectionStats } from '@/hooks/use-peer-session';
 import { Wifi, WifiOff, X, Trophy, Zap, Star, Flame, Gauge, Loader2, CheckCircle2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Progress } from '@/components/ui/progress';
@@ -23,11 +31,22 @@ const LEVELS = [
 ];
 
 export function TransferPanel({ onDisconnect }: TransferPanelProps) {
-  const [sendingFiles, setSendingFiles] = useState<FileTransfer[]>([]);
-  const [receivingFiles, setReceivingFiles] = useState<FileTransfer[]>([]);
-  const [isConnected, setIsConnected] = useState(true);
-  const [isCalibrating, setIsCalibrating] = useState(false);
-  const [connectionStats, setConnectionStats] = useState<ConnectionStats | null>(null);
+  const room = usePeerRoom();
+  const participants = useParticipants();
+  // Transfers interrupted by an earlier connection can be resumed from here
+  const { sending: sendingFiles, receiving: receivingFiles } = useTransfers();
+  const { stats: connectionStats, isCalibrating, calibrate: calibrateConnection } = useConnectionStats();
+  // Offers from the peer waiting for Accept / Decline
+  const [offers, setOffers] = useState<TransferOffer[]>([]);
+  // Participants unticked in the list; everyone else gets the next files
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const isConnected = participants.length > 0;
+  // Connections being restored keep their place but get nothing new
+  const isReconnecting = isConnected && participants.every(p => p.reconnecting);
+  const recipients = useMemo(
+    () => participants.filter(p => !excluded.has(p.id) && !p.reconnecting),
+    [participants, excluded]
+  );
   const [totalXP, setTotalXP] = useState(() => {
     const saved = localStorage.getItem('secureShare_xp');
     return saved ? parseInt(saved, 10) : 0;
@@ -67,10 +86,8 @@ export function TransferPanel({ onDisconnect }: TransferPanelProps) {
   // Auto-calibrate connection on mount
   useEffect(() => {
     const calibrate = async () => {
-      setIsCalibrating(true);
       try {
-        const stats = await webrtc.calibrateConnection();
-        setConnectionStats(stats);
+        const stats = await calibrateConnection();
         toast.success('Connection optimized!', {
           description: `Chunk size: ${(stats.chunkSize / 1024).toFixed(0)}KB, Speed: ${(stats.effectiveBandwidth / 1024 / 1024).toFixed(1)} MB/s`,
           icon: <Gauge className="w-4 h-4 text-success" />,
@@ -78,63 +95,36 @@ export function TransferPanel({ onDisconnect }: TransferPanelProps) {
       } catch (error) {
         console.error('Calibration failed:', error);
         toast.error('Using default settings');
-      } finally {
-        setIsCalibrating(false);
       }
     };
 
     // Small delay to ensure connection is stable
     const timer = setTimeout(calibrate, 500);
     return () => clearTimeout(timer);
-  }, []);
+  }, [calibrateConnection]);
 
   useEffect(() => {
-    const unsubMessage = webrtc.onMessage((msg) => {
-      if (msg.type === 'connectionState') {
-        if (msg.state === 'disconnected' || msg.state === 'failed') {
-          setIsConnected(false);
-          toast.error('Peer disconnected');
-        }
-      }
-      if (msg.type === 'channelClose') {
-        setIsConnected(false);
-      }
+    const unsubLeft = room.on('participantLeft', (participant) => {
+      toast.error(room.isGroup() ? `${participant.name} left` : 'Peer disconnected');
+      // Offers from it can no longer be answered
+      setOffers(prev => prev.filter(offer => offer.senderId !== participant.deviceId));
     });
 
-    const unsubFile = webrtc.onFile((file) => {
-      if (file.data || !sendingFiles.find(f => f.id === file.id)) {
-        setReceivingFiles(prev => {
-          const existing = prev.findIndex(f => f.id === file.id);
-          if (existing >= 0) {
-            const updated = [...prev];
-            updated[existing] = file;
-            return updated;
-          }
-          return [...prev, file];
-        });
-      } else {
-        setSendingFiles(prev => {
-          const existing = prev.findIndex(f => f.id === file.id);
-          if (existing >= 0) {
-            const updated = [...prev];
-            updated[existing] = file;
-            return updated;
-          }
-          return [...prev, file];
-        });
-      }
+    const unsubOffer = room.on('offer', (offer) => {
+      setOffers(prev => [...prev, offer]);
     });
 
-    const unsubCalibration = webrtc.onCalibration((stats) => {
-      setConnectionStats(stats);
+    const unsubWithdrawn = room.on('offerWithdrawn', ({ id }) => {
+      setOffers(prev => prev.filter(offer => offer.id !== id));
+      toast('The other device withdrew its offer');
     });
 
     return () => {
-      unsubMessage();
-      unsubFile();
-      unsubCalibration();
+      unsubLeft();
+      unsubOffer();
+      unsubWithdrawn();
     };
-  }, [sendingFiles]);
+  }, [room]);
 
   const addXP = useCallback((fileSize: number) => {
     const mbBonus = Math.floor(fileSize / (1024 * 1024)) * XP_PER_MB;
@@ -150,32 +140,161 @@ export function TransferPanel({ onDisconnect }: TransferPanelProps) {
     });
   }, [streak]);
 
-  const handleFilesSelected = useCallback(async (files: File[]) => {
-    for (const file of files) {
+  // Offer the batch to one participant and send whatever it accepts
+  const sendBatch = useCallback(async (
+    participant: Participant,
+    entries: Array<SelectedFile & { id: string; contentId?: string }>,
+    batchId: string,
+    swarmWith: string[] = []
+  ) => {
+    const manager = room.getManager(participant.id);
+    if (!manager) return;
+    // Name the device in messages once there can be more than one
+    const device = room.isGroup() ? participant.name : 'The other device';
+    const by = room.isGroup() ? ` by ${participant.name}` : '';
+    const to = room.isGroup() ? ` to ${participant.name}` : '';
+
+    // The receiver gets the whole batch manifest first; nothing is sent
+    // until it accepts, and only the files it picked
+    let accepted: string[];
+    try {
+      accepted = await manager.offerFiles(entries, batchId, swarmWith);
+    } catch (error) {
+      console.error('Failed to offer files:', error);
+      toast.error(`${device} disconnected before answering`);
+      return;
+    }
+
+    if (accepted.length === 0) {
+      toast.warning(entries.length === 1 ? `${entries[0].file.name} was declined${by}` : `Files were declined${by}`);
+    } else if (accepted.length < entries.length) {
+      toast.warning(`${entries.length - accepted.length} of ${entries.length} files were declined${by}`);
+    }
+
+    for (const { id, file, path } of entries) {
+      if (!accepted.includes(id)) continue;
       try {
-        const tempId = crypto.randomUUID();
-        setSendingFiles(prev => [...prev, {
-          id: tempId,
-          name: file.name,
-          size: file.size,
-          type: file.type,
-          progress: 0,
-          status: 'pending',
-        }]);
-        
-        await webrtc.sendFile(file);
+        await manager.sendFile(file, id, { batchId, path });
         addXP(file.size);
-        toast.success(`Sent ${file.name}`);
+        toast.success(`Sent ${file.name}${to}`);
       } catch (error) {
+        if (error instanceof TransferInterruptedError) {
+          if (error.reason === 'cancelled') {
+            toast(`${file.name} cancelled`);
+          } else {
+            toast.warning(`${file.name} paused`, {
+              description: error.reason === 'disconnected'
+                ? 'Reconnect to resume where it left off'
+                : 'Resume it from the list when ready',
+            });
+          }
+          continue;
+        }
         console.error('Failed to send file:', error);
-        toast.error(`Failed to send ${file.name}`);
+        toast.error(`Failed to send ${file.name}${to}`);
         setStreak(0);
       }
     }
-  }, [addXP]);
+  }, [room, addXP]);
+
+  const handleFilesSelected = useCallback(async (files: SelectedFile[]) => {
+    const batchId = crypto.randomUUID();
+    // Every recipient gets the same ids so each file is listed once, with
+    // progress per recipient
+    const entries: Array<SelectedFile & { id: string; contentId?: string }> = files.map(selected => ({ id: crypto.randomUUID(), ...selected }));
+    // In a room, recipients that already have a file (or get it first)
+    // can swarm it to each other, found by its content id
+    if (room.isGroup()) {
+      // Hashing reads every file once, which takes a while for large ones
+      const preparing = toast.loading(entries.length === 1 ? `Preparing ${entries[0].file.name}…` : `Preparing ${entries.length} files…`);
+      try {
+        await Promise.all(entries.map(async (entry) => {
+          entry.contentId = await contentIdOf(entry.file);
+        }));
+        toast.dismiss(preparing);
+      } catch (error) {
+        // Without content ids every recipient gets the files from us alone
+        console.error('Failed to hash files:', error);
+        entries.forEach(entry => {
+          entry.contentId = undefined;
+        });
+        toast.error('Could not prepare the files for sharing in the room', {
+          id: preparing,
+          description: 'Sending them to each device directly',
+        });
+      }
+    }
+    // Each recipient may fetch the files from the others it was sent with
+    const deviceIds = recipients.map(participant => participant.deviceId).filter(Boolean);
+    await Promise.all(recipients.map(participant => sendBatch(
+      participant,
+      entries,
+      batchId,
+      deviceIds.filter(deviceId => deviceId !== participant.deviceId),
+    )));
+  }, [room, recipients, sendBatch]);
+
+  const handleToggleParticipant = useCallback((participant: Participant, included: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (included) next.delete(participant.id);
+      else next.add(participant.id);
+      return next;
+    });
+  }, []);
+
+  const handleResume = useCallback(async (transfer: FileTransfer) => {
+    try {
+      await room.resumeTransfer(transfer.id);
+    } catch (error) {
+      console.error('Failed to resume transfer:', error);
+      if (error instanceof SavePermissionError) {
+        toast.error(`Cannot resume ${transfer.name}`, { description: 'Allow saving to the chosen location to continue' });
+      } else {
+        toast.error(`Cannot resume ${transfer.name} until reconnected`);
+      }
+    }
+  }, [room]);
+
+  const removeOffer = useCallback((offer: TransferOffer) => {
+    setOffers(prev => prev.filter(o => o.id !== offer.id));
+  }, []);
+
+  const handleAcceptOffer = useCallback((offer: TransferOffer, fileIds: string[], destination?: SaveDestination) => {
+    room.acceptOffer(offer.id, { fileIds, destination });
+    removeOffer(offer);
+  }, [room, removeOffer]);
+
+  const handleAlwaysAcceptOffer = useCallback((offer: TransferOffer, fileIds: string[]) => {
+    room.acceptOffer(offer.id, { fileIds, trustSender: true });
+    removeOffer(offer);
+    toast.success('Files from this device will be accepted automatically');
+  }, [room, removeOffer]);
+
+  const handleDeclineOffer = useCallback((offer: TransferOffer) => {
+    room.declineOffer(offer.id);
+    removeOffer(offer);
+  }, [room, removeOffer]);
+
+  const handlePause = useCallback((transfer: FileTransfer) => {
+    room.pauseTransfer(transfer.id);
+  }, [room]);
+
+  const handleCancel = useCallback((transfer: FileTransfer) => {
+    room.cancelTransfer(transfer.id);
+  }, [room]);
+
+  const handleRepair = useCallback((transfer: FileTransfer) => {
+    try {
+      room.repairTransfer(transfer.id);
+    } catch (error) {
+      console.error('Failed to re-request transfer:', error);
+      toast.error(`Cannot re-request ${transfer.name} until reconnected`);
+    }
+  }, [room]);
 
   const handleDisconnect = () => {
-    webrtc.disconnect();
+    room.disconnect();
     onDisconnect();
   };
 
@@ -227,8 +346,13 @@ export function TransferPanel({ onDisconnect }: TransferPanelProps) {
 
       {/* Connection Status */}
       <div className="flex items-center justify-between mb-6">
-        <div className="flex items-center gap-3">
-          {isConnected ? (
+        <div className="flex flex-wrap items-center gap-3">
+          {isReconnecting ? (
+            <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-warning/10 border border-warning/30">
+              <Loader2 className="w-4 h-4 text-warning animate-spin" />
+              <span className="text-sm font-medium text-warning">Reconnecting...</span>
+            </div>
+          ) : isConnected ? (
             <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-success/10 border border-success/30">
               <div className="w-2 h-2 rounded-full bg-success animate-pulse" />
               <Wifi className="w-4 h-4 text-success" />
@@ -241,6 +365,11 @@ export function TransferPanel({ onDisconnect }: TransferPanelProps) {
             </div>
           )}
           
+          {/* One-to-one sessions show their path here, rooms per participant */}
+          {!room.isGroup() && !isReconnecting && participants[0]?.path && (
+            <ConnectionPathBadge path={participants[0].path} />
+          )}
+
           {/* Calibration Status */}
           {isCalibrating ? (
             <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-warning/10 border border-warning/30">
@@ -270,14 +399,46 @@ export function TransferPanel({ onDisconnect }: TransferPanelProps) {
         </Button>
       </div>
 
+      {room.isGroup() && (
+        <div className="mb-4">
+          <ParticipantList
+            participants={participants}
+            excluded={excluded}
+            onToggle={handleToggleParticipant}
+          />
+        </div>
+      )}
+
       <FileDropZone
         onFilesSelected={handleFilesSelected}
-        disabled={!isConnected || isCalibrating}
+        disabled={!isConnected || isCalibrating || recipients.length === 0}
       />
 
       <div className="mt-6 space-y-6">
-        <TransferList transfers={sendingFiles} direction="sending" />
-        <TransferList transfers={receivingFiles} direction="receiving" />
+        {offers.map((offer) => (
+          <TransferOfferPrompt
+            key={offer.id}
+            offer={offer}
+            onAccept={handleAcceptOffer}
+            onDecline={handleDeclineOffer}
+            onAlwaysAccept={handleAlwaysAcceptOffer}
+          />
+        ))}
+        <TransferList
+          transfers={sendingFiles}
+          direction="sending"
+          onPause={handlePause}
+          onResume={handleResume}
+          onCancel={handleCancel}
+        />
+        <TransferList
+          transfers={receivingFiles}
+          direction="receiving"
+          onPause={handlePause}
+          onResume={handleResume}
+          onCancel={handleCancel}
+          onRepair={handleRepair}
+        />
       </div>
     </div>
   );
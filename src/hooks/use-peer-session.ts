@@ -0,0 +1,82 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { webrtc, type ConnectionStats, type FileTransfer, type WebRTCManager } from '@/lib/webrtc';
+import { peerRoom, type Participant, type PeerRoom } from '@/lib/peerRoom';
+
+// Fall back to the shared instances when no PeerSessionProvider is mounted
+export const PeerSessionContext = createContext<WebRTCManager>(webrtc);
+export const PeerRoomContext = createContext<PeerRoom>(peerRoom);
+
+// The manager for the current peer session; in a group room, the one
+// connecting us to the first peer
+export function usePeerSession(): WebRTCManager {
+  return useContext(PeerSessionContext);
+}
+
+// Every connection of the current session
+export function usePeerRoom(): PeerRoom {
+  return useContext(PeerRoomContext);
+}
+
+// Connected participants of the room
+export function useParticipants(): Participant[] {
+  const room = usePeerRoom();
+  const [participants, setParticipants] = useState(() => room.getParticipants());
+
+  useEffect(() => {
+    setParticipants(room.getParticipants());
+    return room.on('participants', setParticipants);
+  }, [room]);
+
+  return participants;
+}
+
+function upsert(list: FileTransfer[], file: FileTransfer): FileTransfer[] {
+  const existing = list.findIndex(f => f.id === file.id);
+  if (existing < 0) return [...list, file];
+  const updated = [...list];
+  updated[existing] = file;
+  return updated;
+}
+
+// Transfers in both directions with every participant, starting with those
+// interrupted by an earlier connection and kept up to date from file events
+export function useTransfers(): { sending: FileTransfer[]; receiving: FileTransfer[] } {
+  const room = usePeerRoom();
+  const [transfers, setTransfers] = useState(() => room.getResumableTransfers());
+
+  useEffect(() => {
+    setTransfers(room.getResumableTransfers());
+    return room.on('file', (file) => {
+      setTransfers(prev => (
+        file.direction === 'sending'
+          ? { ...prev, sending: upsert(prev.sending, file) }
+          : { ...prev, receiving: upsert(prev.receiving, file) }
+      ));
+    });
+  }, [room]);
+
+  return transfers;
+}
+
+// Calibration results for the current connection, and a way to run it
+export function useConnectionStats() {
+  const manager = usePeerSession();
+  const [stats, setStats] = useState<ConnectionStats | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+
+  useEffect(() => {
+    setStats(null);
+    return manager.on('calibrationComplete', ({ stats }) => setStats(stats));
+  }, [manager]);
+
+  const calibrate = useCallback(async () => {
+    setIsCalibrating(true);
+    try {
+      return await manager.calibrateConnection();
+    } finally {
+      setIsCalibrating(false);
+    }
+  }, [manager]);
+
+  return { stats, isCalibrating, calibrate };
+}
@@ -14,13 +14,94 @@ export type Database = {
   }
   public: {
     Tables: {
+      room_candidates: {
+        Row: {
+          candidate: Json | null
+          created_at: string
+          id: number
+          peer_id: string | null
+          pin: string
+          role: string
+        }
+        Insert: {
+          candidate?: Json | null
+          created_at?: string
+          id?: never
+          peer_id?: string | null
+          pin: string
+          role: string
+        }
+        Update: {
+          candidate?: Json | null
+          created_at?: string
+          id?: never
+          peer_id?: string | null
+          pin?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_candidates_peer_id_fkey"
+            columns: ["peer_id"]
+            isOneToOne: false
+            referencedRelation: "room_peers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_candidates_pin_fkey"
+            columns: ["pin"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["pin"]
+          },
+        ]
+      }
+      room_peers: {
+        Row: {
+          answer: string | null
+          created_at: string
+          id: string
+          offer: string
+          peer_public_key: string | null
+          pin: string
+          public_key: string | null
+        }
+        Insert: {
+          answer?: string | null
+          created_at?: string
+          id?: string
+          offer: string
+          peer_public_key?: string | null
+          pin: string
+          public_key?: string | null
+        }
+        Update: {
+          answer?: string | null
+          created_at?: string
+          id?: string
+          offer?: string
+          peer_public_key?: string | null
+          pin?: string
+          public_key?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_peers_pin_fkey"
+            columns: ["pin"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["pin"]
+          },
+        ]
+      }
       rooms: {
         Row: {
           answer: string | null
           created_at: string
           expires_at: string
           id: string
-          offer: string
+          max_peers: number
+          offer: string | null
           peer_public_key: string | null
           pin: string
           public_key: string | null
@@ -30,7 +111,8 @@ export type Database = {
           created_at?: string
           expires_at?: string
           id?: string
-          offer: string
+          max_peers?: number
+          offer?: string | null
           peer_public_key?: string | null
           pin: string
           public_key?: string | null
@@ -40,7 +122,8 @@ export type Database = {
           created_at?: string
           expires_at?: string
           id?: string
-          offer?: string
+          max_peers?: number
+          offer?: string | null
           peer_public_key?: string | null
           pin?: string
           public_key?: string | null
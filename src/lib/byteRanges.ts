@@ -0,0 +1,82 @@
+// Tracks which byte ranges of a file are present, as sorted half-open
+// [start, end) intervals that are merged on insert.
+
+export type ByteRange = [number, number];
+
+export class ByteRangeSet {
+  private ranges: ByteRange[] = [];
+
+  constructor(ranges: ByteRange[] = []) {
+    ranges.forEach(([start, end]) => this.add(start, end));
+  }
+
+  add(start: number, end: number) {
+    if (end <= start) return;
+
+    const merged: ByteRange[] = [];
+    let inserted = false;
+
+    for (const [s, e] of this.ranges) {
+      if (e < start) {
+        merged.push([s, e]);
+      } else if (s > end) {
+        if (!inserted) {
+          merged.push([start, end]);
+          inserted = true;
+        }
+        merged.push([s, e]);
+      } else {
+        start = Math.min(start, s);
+        end = Math.max(end, e);
+      }
+    }
+
+    if (!inserted) merged.push([start, end]);
+    this.ranges = merged;
+  }
+
+  remove(start: number, end: number) {
+    if (end <= start) return;
+
+    this.ranges = this.ranges.flatMap(([s, e]): ByteRange[] => {
+      if (e <= start || s >= end) return [[s, e]];
+      const kept: ByteRange[] = [];
+      if (s < start) kept.push([s, start]);
+      if (e > end) kept.push([end, e]);
+      return kept;
+    });
+  }
+
+  // Total number of bytes covered
+  get size(): number {
+    return this.ranges.reduce((acc, [start, end]) => acc + (end - start), 0);
+  }
+
+  // Whether all of [start, end) is present
+  contains(start: number, end: number): boolean {
+    return this.ranges.some(([s, e]) => s <= start && e >= end);
+  }
+
+  covers(total: number): boolean {
+    return total === 0 || (this.ranges.length === 1 && this.ranges[0][0] === 0 && this.ranges[0][1] >= total);
+  }
+
+  // Ranges within [0, total) that are not yet present
+  missing(total: number): ByteRange[] {
+    const gaps: ByteRange[] = [];
+    let cursor = 0;
+
+    for (const [start, end] of this.ranges) {
+      if (start >= total) break;
+      if (start > cursor) gaps.push([cursor, start]);
+      cursor = Math.max(cursor, end);
+    }
+
+    if (cursor < total) gaps.push([cursor, total]);
+    return gaps;
+  }
+
+  toJSON(): ByteRange[] {
+    return this.ranges.map(([start, end]) => [start, end]);
+  }
+}
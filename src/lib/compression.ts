@@ -0,0 +1,65 @@
+// Helpers for deciding whether data is worth compressing, and one-shot
+// deflate of single transfer chunks
+
+// MIME types whose contents are already compressed
+const COMPRESSED_TYPE = /^(video\/|audio\/(?!wav|x-wav|aiff)|image\/(?!svg|bmp|x-ms-bmp|tiff)|application\/(zip|gzip|x-gzip|x-7z-compressed|x-rar-compressed|vnd\.rar|x-bzip2|x-xz|zstd|pdf|epub\+zip|java-archive|vnd\.android\.package-archive|vnd\.openxmlformats-officedocument\.))/;
+
+const COMPRESSED_EXTENSIONS = new Set([
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'heic', 'heif',
+  'mp4', 'm4v', 'mov', 'mkv', 'webm', 'avi',
+  'mp3', 'aac', 'm4a', 'ogg', 'opus', 'flac',
+  'zip', 'gz', 'tgz', 'bz2', 'xz', 'zst', '7z', 'rar',
+  'pdf', 'docx', 'xlsx', 'pptx', 'epub', 'jar', 'apk',
+]);
+
+export function isCompressedFormat(name: string, type: string): boolean {
+  if (type && COMPRESSED_TYPE.test(type)) return true;
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 && COMPRESSED_EXTENSIONS.has(name.slice(dot + 1).toLowerCase());
+}
+
+export function supportsCompressionStream(format: CompressionFormat): boolean {
+  if (typeof CompressionStream === 'undefined' || typeof DecompressionStream === 'undefined') return false;
+  try {
+    new CompressionStream(format);
+    new DecompressionStream(format);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>, maxLength: number): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  const reader = stream.getReader();
+
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    length += result.value.length;
+    if (length > maxLength) {
+      await reader.cancel();
+      throw new Error(`Output exceeds ${maxLength} bytes`);
+    }
+    parts.push(result.value);
+  }
+
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export function compressChunk(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return readAll(stream, Infinity);
+}
+
+// Inflate a chunk from the peer, refusing to produce more than maxLength
+// bytes so a crafted payload can't balloon in memory
+export function decompressChunk(data: Uint8Array, maxLength: number): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return readAll(stream, maxLength);
+}
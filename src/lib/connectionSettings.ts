@@ -0,0 +1,54 @@
+// Connection settings the user can change, kept in this browser
+
+import type { ConnectionPolicy } from './iceServers';
+import type { SignalingTransport } from './signaling';
+import { SupabaseSignaling } from './supabaseSignaling';
+import { WebSocketSignaling } from './websocketSignaling';
+
+export interface ConnectionSettings {
+  // A self-hosted signaling server (server/signaling-server.ts); empty to
+  // use the hosted service
+  signalingUrl: string;
+  // STUN/TURN servers to use instead of the build's; empty for those
+  iceServers: RTCIceServer[];
+  // Add short-lived TURN credentials from the turn-credentials function
+  turnCredentials: boolean;
+  // Which network paths connections may take
+  connectionPolicy: ConnectionPolicy;
+}
+
+const SETTINGS_KEY = 'secureShare_connectionSettings';
+
+// Deployments can point every browser at their own server up front
+const DEFAULT_SETTINGS: ConnectionSettings = {
+  signalingUrl: import.meta.env.VITE_SIGNALING_URL ?? '',
+  iceServers: [],
+  turnCredentials: import.meta.env.VITE_TURN_CREDENTIALS === 'true',
+  connectionPolicy: 'direct',
+};
+
+export function loadConnectionSettings(): ConnectionSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    return { ...DEFAULT_SETTINGS, ...saved };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveConnectionSettings(settings: ConnectionSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function isSignalingUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'ws:' || protocol === 'wss:';
+  } catch {
+    return false;
+  }
+}
+
+export function createSignaling({ signalingUrl }: ConnectionSettings): SignalingTransport {
+  return signalingUrl ? new WebSocketSignaling(signalingUrl) : new SupabaseSignaling();
+}
@@ -142,3 +142,38 @@ export async function decryptString(key: CryptoKey, encoded: string): Promise<st
   const decoder = new TextDecoder();
   return decoder.decode(decrypted);
 }
+
+// ============= DEVICE IDENTITY =============
+
+const IDENTITY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+
+// Long-lived signing key a device proves itself with across sessions
+export async function generateIdentityKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(IDENTITY_ALGORITHM, true, ['sign', 'verify']);
+}
+
+export async function exportIdentityKey(key: CryptoKey): Promise<string> {
+  return btoa(JSON.stringify(await crypto.subtle.exportKey('jwk', key)));
+}
+
+export async function importIdentityKey(encodedKey: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', JSON.parse(atob(encodedKey)), IDENTITY_ALGORITHM, true, [usage]);
+}
+
+export async function signString(privateKey: CryptoKey, text: string): Promise<string> {
+  const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, privateKey, new TextEncoder().encode(text));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+export async function verifyString(publicKey: CryptoKey, signature: string, text: string): Promise<boolean> {
+  const bytes = new Uint8Array(atob(signature).split('').map(c => c.charCodeAt(0)));
+  return crypto.subtle.verify(SIGNATURE_ALGORITHM, publicKey, bytes, new TextEncoder().encode(text));
+}
+
+// Stable name for an identity key: SHA-256 of its x and y coordinates
+export async function fingerprintIdentityKey(encodedKey: string): Promise<string> {
+  const { x, y } = JSON.parse(atob(encodedKey)) as JsonWebKey;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${x}.${y}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,78 @@
+// Stable per-browser identity, used to recognise the same peer across sessions
+
+import { exportIdentityKey, generateIdentityKeyPair, importIdentityKey } from './crypto';
+
+const DEVICE_ID_KEY = 'secureShare_deviceId';
+
+// The device id is self-reported and only used to match up transfers; trust
+// hangs off the signing key below, which a peer has to prove it holds
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+// Signing key this browser proves itself with during the handshake
+
+const IDENTITY_KEY = 'secureShare_identityKey';
+
+export interface DeviceIdentity {
+  publicKey: string;
+  privateKey: CryptoKey;
+}
+
+let identity: Promise<DeviceIdentity> | null = null;
+
+async function loadIdentity(): Promise<DeviceIdentity> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(IDENTITY_KEY) ?? 'null');
+    if (saved?.publicKey && saved?.privateKey) {
+      return { publicKey: saved.publicKey, privateKey: await importIdentityKey(saved.privateKey, 'sign') };
+    }
+  } catch (error) {
+    console.warn('Replacing unreadable identity key:', error);
+  }
+
+  const keyPair = await generateIdentityKeyPair();
+  const publicKey = await exportIdentityKey(keyPair.publicKey);
+  const privateKey = await exportIdentityKey(keyPair.privateKey);
+  localStorage.setItem(IDENTITY_KEY, JSON.stringify({ publicKey, privateKey }));
+  return { publicKey, privateKey: await importIdentityKey(privateKey, 'sign') };
+}
+
+export function getDeviceIdentity(): Promise<DeviceIdentity> {
+  if (!identity) {
+    identity = loadIdentity().catch((error) => {
+      identity = null;
+      throw error;
+    });
+  }
+  return identity;
+}
+
+// Identity key fingerprints the user chose to always accept files from
+
+const TRUSTED_IDENTITIES_KEY = 'secureShare_trustedIdentities';
+
+function getTrustedIdentities(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TRUSTED_IDENTITIES_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function isTrustedIdentity(fingerprint: string): boolean {
+  return getTrustedIdentities().includes(fingerprint);
+}
+
+export function trustIdentity(fingerprint: string) {
+  const trusted = getTrustedIdentities();
+  if (!trusted.includes(fingerprint)) {
+    localStorage.setItem(TRUSTED_IDENTITIES_KEY, JSON.stringify([...trusted, fingerprint]));
+  }
+}
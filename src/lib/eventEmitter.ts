@@ -0,0 +1,27 @@
+// Minimal typed event emitter: each event name maps to one payload type
+
+type Handler<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events> {
+  private handlers: { [K in keyof Events]?: Set<Handler<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, handler: Handler<Events[K]>): () => void {
+    let set = this.handlers[event];
+    if (!set) {
+      set = new Set();
+      this.handlers[event] = set;
+    }
+    set.add(handler);
+    return () => {
+      set.delete(handler);
+    };
+  }
+
+  emit<K extends keyof Events>(event: K, ...[payload]: Events[K] extends void ? [] : [Events[K]]) {
+    this.handlers[event]?.forEach(handler => handler(payload as Events[K]));
+  }
+
+  clear() {
+    this.handlers = {};
+  }
+}
@@ -0,0 +1,352 @@
+// Destinations for incoming file data. Chunks are written straight to disk
+// where the browser allows it so large files never have to fit in memory.
+
+export type SinkKind = 'picker' | 'directory' | 'opfs' | 'memory';
+
+export interface FileSink {
+  readonly kind: SinkKind;
+  // Writes are queued internally, so callers may fire them without awaiting
+  write(offset: number, chunk: Uint8Array): Promise<void>;
+  // Commits everything written so far so it survives a page reload
+  checkpoint(): Promise<void>;
+  // Contents as of the last checkpoint, e.g. for verifying before close
+  read(): Promise<Blob>;
+  // Flushes pending writes and returns a Blob backed by the sink's storage
+  close(): Promise<Blob>;
+  abort(): Promise<void>;
+}
+
+// Where the user chose to save an accepted batch, picked in the click that
+// accepted it: a folder to write the files into, or a file for a one-file
+// batch. Without one, files are staged in OPFS.
+export type SaveDestination =
+  | { kind: 'directory'; directory: FileSystemDirectoryHandle }
+  | { kind: 'file'; handle: FileSystemFileHandle };
+
+export interface SinkOptions {
+  id: string;
+  name: string;
+  type: string;
+  destination?: SaveDestination;
+  // Where in a chosen folder the file goes (a sanitized relative path)
+  path?: string;
+  // Reopen the file written so far instead of starting empty
+  resume?: boolean;
+}
+
+// The kind of sink a destination is written through when it's available
+export function sinkKindFor(destination?: SaveDestination): SinkKind {
+  if (!destination) return 'opfs';
+  return destination.kind === 'directory' ? 'directory' : 'picker';
+}
+
+export class SavePermissionError extends Error {
+  constructor(public readonly fileName: string) {
+    super(`No permission to keep saving ${fileName}`);
+    this.name = 'SavePermissionError';
+  }
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+}
+
+type ShowSaveFilePicker = (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+type ShowDirectoryPicker = (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+interface PermissionedHandle {
+  queryPermission?(options: { mode: 'readwrite' }): Promise<PermissionState>;
+  requestPermission?(options: { mode: 'readwrite' }): Promise<PermissionState>;
+}
+
+const STAGING_DIRECTORY = 'incoming';
+
+const MIN_CHECKPOINT_BYTES = 8 * 1024 * 1024;
+
+// How many bytes to write before the next checkpoint. Reopening a writable
+// copies the whole file, so the interval grows with the file to keep the
+// total copying proportional to its size.
+export function checkpointInterval(written: number): number {
+  return Math.max(MIN_CHECKPOINT_BYTES, written / 2);
+}
+
+function toArrayBuffer(chunk: Uint8Array): ArrayBuffer {
+  if (chunk.byteOffset === 0 && chunk.byteLength === chunk.buffer.byteLength) {
+    return chunk.buffer as ArrayBuffer;
+  }
+  return chunk.slice().buffer as ArrayBuffer;
+}
+
+// Sink backed by a FileSystemWritableFileStream (picker or OPFS handle)
+class WritableFileSink implements FileSink {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly kind: SinkKind,
+    private handle: FileSystemFileHandle,
+    private writable: FileSystemWritableFileStream,
+    private onAbort?: () => Promise<void>,
+  ) {}
+
+  write(offset: number, chunk: Uint8Array): Promise<void> {
+    const data = toArrayBuffer(chunk);
+    this.queue = this.queue.then(() =>
+      this.writable.write({ type: 'write', position: offset, data })
+    );
+    return this.queue;
+  }
+
+  // Writable streams only reach the file on close, so close and reopen
+  checkpoint(): Promise<void> {
+    this.queue = this.queue.then(async () => {
+      await this.writable.close();
+      this.writable = await this.handle.createWritable({ keepExistingData: true });
+    });
+    return this.queue;
+  }
+
+  async read(): Promise<Blob> {
+    await this.queue;
+    return this.handle.getFile();
+  }
+
+  async close(): Promise<Blob> {
+    await this.queue;
+    await this.writable.close();
+    return this.handle.getFile();
+  }
+
+  async abort(): Promise<void> {
+    await this.queue.catch(() => undefined);
+    await this.writable.abort().catch(() => undefined);
+    await this.onAbort?.();
+  }
+}
+
+// Last resort: keep chunks in memory and assemble a Blob on close
+class MemorySink implements FileSink {
+  readonly kind = 'memory' as const;
+  // Keyed by offset so a re-sent chunk replaces the earlier copy
+  private parts: Map<number, ArrayBuffer> = new Map();
+
+  constructor(private type: string) {}
+
+  async write(offset: number, chunk: Uint8Array): Promise<void> {
+    this.parts.set(offset, toArrayBuffer(chunk));
+  }
+
+  async checkpoint(): Promise<void> {
+    // Nothing to persist
+  }
+
+  async read(): Promise<Blob> {
+    const ordered = [...this.parts.entries()].sort(([a], [b]) => a - b).map(([, data]) => data);
+    return new Blob(ordered, { type: this.type });
+  }
+
+  async close(): Promise<Blob> {
+    const blob = await this.read();
+    this.parts.clear();
+    return blob;
+  }
+
+  async abort(): Promise<void> {
+    this.parts.clear();
+  }
+}
+
+function getSaveFilePicker(): ShowSaveFilePicker | undefined {
+  return (window as unknown as { showSaveFilePicker?: ShowSaveFilePicker }).showSaveFilePicker;
+}
+
+export function canPickSaveFile(): boolean {
+  return !!getSaveFilePicker();
+}
+
+// Ask the user where to save one received file. Must run from a click
+// handler; resolves null if unsupported or dismissed.
+export async function pickSaveFile(name: string): Promise<FileSystemFileHandle | null> {
+  const showSaveFilePicker = getSaveFilePicker();
+  if (!showSaveFilePicker) return null;
+
+  try {
+    return await showSaveFilePicker({ suggestedName: name });
+  } catch (error) {
+    console.warn('Save picker dismissed:', error);
+    return null;
+  }
+}
+
+async function createPickedFileSink(handle: FileSystemFileHandle, resume: boolean): Promise<FileSink | null> {
+  try {
+    const writable = await handle.createWritable({ keepExistingData: resume });
+    return new WritableFileSink('picker', handle, writable);
+  } catch (error) {
+    console.warn('Could not write to the chosen file, falling back:', error);
+    return null;
+  }
+}
+
+function getDirectoryPicker(): ShowDirectoryPicker | undefined {
+  return (window as unknown as { showDirectoryPicker?: ShowDirectoryPicker }).showDirectoryPicker;
+}
+
+export function canPickDirectory(): boolean {
+  return !!getDirectoryPicker();
+}
+
+// Ask the user for a folder to save a received folder tree into. Must run
+// from a click handler; resolves null if unsupported or dismissed.
+export async function pickSaveDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  const showDirectoryPicker = getDirectoryPicker();
+  if (!showDirectoryPicker) return null;
+
+  try {
+    return await showDirectoryPicker({ mode: 'readwrite' });
+  } catch (error) {
+    console.warn('Directory picker dismissed:', error);
+    return null;
+  }
+}
+
+async function createDirectorySink(root: FileSystemDirectoryHandle, path: string, resume: boolean): Promise<FileSink | null> {
+  try {
+    const segments = path.split('/');
+    const name = segments.pop();
+    let directory = root;
+    for (const segment of segments) {
+      directory = await directory.getDirectoryHandle(segment, { create: true });
+    }
+
+    const handle = await directory.getFileHandle(name, { create: true });
+    const writable = await handle.createWritable({ keepExistingData: resume });
+    return new WritableFileSink('directory', handle, writable, () =>
+      directory.removeEntry(name).catch(() => undefined)
+    );
+  } catch (error) {
+    console.warn('Could not write into the chosen folder, falling back:', error);
+    return null;
+  }
+}
+
+async function getStagingDirectory(): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(STAGING_DIRECTORY, { create: true });
+}
+
+async function createOpfsSink(id: string, resume: boolean): Promise<FileSink | null> {
+  if (!navigator.storage?.getDirectory) return null;
+
+  try {
+    const directory = await getStagingDirectory();
+    const handle = await directory.getFileHandle(id, { create: true });
+    // Safari only exposes writable streams for OPFS inside workers
+    if (typeof handle.createWritable !== 'function') return null;
+
+    const writable = await handle.createWritable({ keepExistingData: resume });
+    return new WritableFileSink('opfs', handle, writable, () =>
+      directory.removeEntry(id).catch(() => undefined)
+    );
+  } catch (error) {
+    console.warn('OPFS staging unavailable, falling back:', error);
+    return null;
+  }
+}
+
+// Pick the best available sink: the chosen destination, then OPFS, then
+// memory
+export async function createFileSink(options: SinkOptions): Promise<FileSink> {
+  const { destination } = options;
+  const resume = !!options.resume;
+  if (destination?.kind === 'directory') {
+    const directorySink = await createDirectorySink(destination.directory, options.path ?? options.name, resume);
+    if (directorySink) return directorySink;
+  } else if (destination?.kind === 'file') {
+    const pickedSink = await createPickedFileSink(destination.handle, resume);
+    if (pickedSink) return pickedSink;
+  }
+
+  const opfsSink = await createOpfsSink(options.id, resume);
+  if (opfsSink) return opfsSink;
+
+  return new MemorySink(options.type);
+}
+
+// Whether a destination restored from a previous page session may still be
+// written. The browser forgets the grant with the page and only asks again
+// during a user gesture, so outside one this just checks.
+export async function canWrite(destination: SaveDestination): Promise<boolean> {
+  const handle = (destination.kind === 'directory' ? destination.directory : destination.handle) as PermissionedHandle;
+  if (!handle.queryPermission) return true;
+
+  try {
+    if ((await handle.queryPermission({ mode: 'readwrite' })) === 'granted') return true;
+    if (!navigator.userActivation?.isActive || !handle.requestPermission) return false;
+    return (await handle.requestPermission({ mode: 'readwrite' })) === 'granted';
+  } catch (error) {
+    console.warn('Could not check permission to save:', error);
+    return false;
+  }
+}
+
+// Remove the given staged files from OPFS
+export async function removeStagedFiles(ids: string[]): Promise<void> {
+  if (ids.length === 0 || !navigator.storage?.getDirectory) return;
+
+  try {
+    const directory = await getStagingDirectory();
+    await Promise.all(ids.map(id => directory.removeEntry(id).catch(() => undefined)));
+  } catch (error) {
+    console.warn('Failed to remove staged files:', error);
+  }
+}
+
+// Remove every staged file from OPFS, except those still needed for resuming
+export async function clearStagedFiles(keep: Set<string> = new Set()): Promise<void> {
+  if (!navigator.storage?.getDirectory) return;
+
+  try {
+    const directory = await getStagingDirectory();
+    const names: string[] = [];
+    for await (const name of (directory as unknown as { keys(): AsyncIterable<string> }).keys()) {
+      if (!keep.has(name)) names.push(name);
+    }
+    await Promise.all(names.map(name => directory.removeEntry(name).catch(() => undefined)));
+  } catch (error) {
+    console.warn('Failed to clear staged files:', error);
+  }
+}
+
+// ============= SAVING GENERATED FILES =============
+
+export function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Save a generated stream (e.g. a zip archive). With a save picker it is
+// piped straight to disk; otherwise it is collected into a Blob and
+// downloaded. Call from a click handler so the picker is allowed.
+export async function saveStream(stream: ReadableStream<Uint8Array>, name: string): Promise<boolean> {
+  const showSaveFilePicker = getSaveFilePicker();
+  if (showSaveFilePicker && navigator.userActivation?.isActive) {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await showSaveFilePicker({ suggestedName: name });
+    } catch (error) {
+      // Dismissed by the user
+      console.warn('Save picker dismissed:', error);
+      await stream.cancel();
+      return false;
+    }
+    await stream.pipeTo(await handle.createWritable());
+    return true;
+  }
+
+  downloadBlob(await new Response(stream).blob(), name);
+  return true;
+}
@@ -0,0 +1,107 @@
+// Folder support: collecting files with their relative paths from drops and
+// directory pickers, and sanitizing paths that arrive from the peer.
+
+export interface SelectedFile {
+  file: File;
+  // Path within the dropped or picked folder, e.g. "photos/2024/a.jpg";
+  // unset for files chosen on their own
+  path?: string;
+}
+
+type HandleItem = DataTransferItem & {
+  getAsFileSystemHandle?: () => Promise<FileSystemHandle | null>;
+};
+
+type DropSource =
+  | { handle: Promise<FileSystemHandle | null> }
+  | { entry: FileSystemEntry | null; file: File | null };
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+function readEntryBatch(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function collectFromEntry(entry: FileSystemEntry, prefix: string, out: SelectedFile[]) {
+  if (entry.isFile) {
+    const file = await readEntryFile(entry as FileSystemFileEntry);
+    out.push({ file, path: prefix ? prefix + file.name : undefined });
+  } else if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries hands out results in batches until it returns an empty one
+    for (let batch = await readEntryBatch(reader); batch.length > 0; batch = await readEntryBatch(reader)) {
+      for (const child of batch) {
+        await collectFromEntry(child, `${prefix}${entry.name}/`, out);
+      }
+    }
+  }
+}
+
+async function collectFromHandle(handle: FileSystemHandle, prefix: string, out: SelectedFile[]) {
+  if (handle.kind === 'file') {
+    const file = await (handle as FileSystemFileHandle).getFile();
+    out.push({ file, path: prefix ? prefix + file.name : undefined });
+  } else {
+    const directory = handle as FileSystemDirectoryHandle;
+    const children = (directory as unknown as { values(): AsyncIterable<FileSystemHandle> }).values();
+    for await (const child of children) {
+      await collectFromHandle(child, `${prefix}${directory.name}/`, out);
+    }
+  }
+}
+
+// Expand a drop into files, walking into any folders. Must be called from the
+// drop handler itself: items are only readable during the event.
+export function collectDroppedFiles(dataTransfer: DataTransfer): Promise<SelectedFile[]> {
+  const sources: DropSource[] = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map((item: HandleItem) => (
+      item.getAsFileSystemHandle
+        ? { handle: item.getAsFileSystemHandle() }
+        : { entry: item.webkitGetAsEntry?.() ?? null, file: item.getAsFile() }
+    ));
+
+  if (sources.length === 0) {
+    return Promise.resolve(Array.from(dataTransfer.files, file => ({ file })));
+  }
+
+  return (async () => {
+    const out: SelectedFile[] = [];
+    for (const source of sources) {
+      if ('handle' in source) {
+        const handle = await source.handle;
+        if (handle) await collectFromHandle(handle, '', out);
+      } else if (source.entry) {
+        await collectFromEntry(source.entry, '', out);
+      } else if (source.file) {
+        out.push({ file: source.file });
+      }
+    }
+    return out;
+  })();
+}
+
+// Files from an <input type="file">; webkitdirectory inputs carry paths
+export function filesFromInput(files: FileList): SelectedFile[] {
+  return Array.from(files, file => ({ file, path: file.webkitRelativePath || undefined }));
+}
+
+const UNSAFE_CHARACTERS = '<>:"|?*\\';
+
+// Reduce a relative path from the peer to plain segments so it can never
+// point outside the folder it is saved into: leading slashes, "." and ".."
+// are dropped, and drive-letter colons and other characters file systems
+// reject are replaced.
+export function sanitizeRelativePath(path: string | undefined): string | undefined {
+  if (!path) return undefined;
+
+  const segments = path
+    .replace(/\\/g, '/')
+    .split('/')
+    .map(segment => Array.from(segment, ch => (ch.charCodeAt(0) < 32 || UNSAFE_CHARACTERS.includes(ch) ? '_' : ch)).join('').trim())
+    .filter(segment => segment !== '' && segment !== '.' && segment !== '..');
+
+  return segments.length > 0 ? segments.join('/') : undefined;
+}
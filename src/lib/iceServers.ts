@@ -0,0 +1,214 @@
+// Where a connection's ICE servers come from: the user's own list from
+// Settings, else the build's VITE_ICE_SERVERS, else public STUN only; plus,
+// when enabled, short-lived TURN credentials from the turn-credentials edge
+// function (TURN REST API, see supabase/functions/turn-credentials). Also
+// the connection policies that limit which of those paths may be used.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { ConnectionSettings } from './connectionSettings';
+
+// Public STUN only; relaying needs a TURN server of your own
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:global.stun.twilio.com:3478' },
+];
+
+// VITE_ICE_SERVERS holds a JSON array of RTCIceServer objects
+function envIceServers(): RTCIceServer[] | null {
+  const raw = import.meta.env.VITE_ICE_SERVERS;
+  if (!raw) return null;
+  try {
+    const servers = JSON.parse(raw);
+    if (Array.isArray(servers)) return servers;
+  } catch {
+    // Reported below
+  }
+  console.warn('Ignoring VITE_ICE_SERVERS: expected a JSON array of ICE servers');
+  return null;
+}
+
+export const CONFIGURED_ICE_SERVERS: RTCIceServer[] = envIceServers() ?? DEFAULT_ICE_SERVERS;
+
+// ============= TEXT FORM =============
+
+function iceUrls(server: RTCIceServer): string[] {
+  return Array.isArray(server.urls) ? server.urls : [server.urls];
+}
+
+const ICE_URL = /^(stun|stuns|turn|turns):\S+$/;
+
+// One server per line: its URL, then for TURN the username and credential,
+// e.g. `turn:turn.example.com:3478?transport=tcp alice s3cret`. Blank lines
+// and lines starting with # are skipped.
+export function parseIceServers(text: string): RTCIceServer[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map((line) => {
+      const [urls, username, credential, ...rest] = line.split(/\s+/);
+      if (!ICE_URL.test(urls) || rest.length > 0) throw new Error(`Not an ICE server: ${line}`);
+      if (urls.startsWith('turn') && !credential) throw new Error(`${urls} needs a username and credential`);
+      return username ? { urls, username, credential } : { urls };
+    });
+}
+
+export function formatIceServers(servers: RTCIceServer[]): string {
+  return servers
+    .flatMap(server => iceUrls(server).map(url => [url, server.username, server.credential].filter(Boolean).join(' ')))
+    .join('\n');
+}
+
+// ============= TURN CREDENTIALS =============
+
+interface TurnCredentials {
+  iceServers: RTCIceServer[];
+  // Unix time in seconds
+  expiresAt: number;
+}
+
+// Fetch fresh credentials once the cached ones have less than this left
+const CREDENTIAL_MARGIN_MS = 5 * 60 * 1000;
+
+let cachedTurn: TurnCredentials | null = null;
+
+export async function fetchTurnCredentials(): Promise<RTCIceServer[]> {
+  if (cachedTurn && cachedTurn.expiresAt * 1000 - CREDENTIAL_MARGIN_MS > Date.now()) {
+    return cachedTurn.iceServers;
+  }
+  const { data, error } = await supabase.functions.invoke<TurnCredentials>('turn-credentials');
+  if (error) throw error;
+  cachedTurn = data;
+  return data.iceServers;
+}
+
+// ICE servers for a new connection. Devices that can reach each other
+// directly connect without TURN, so a failed credential fetch only warns.
+export async function resolveIceServers({ iceServers, turnCredentials }: ConnectionSettings): Promise<RTCIceServer[]> {
+  const servers = iceServers.length > 0 ? iceServers : CONFIGURED_ICE_SERVERS;
+  if (!turnCredentials) return servers;
+  try {
+    return [...servers, ...(await fetchTurnCredentials())];
+  } catch (error) {
+    console.warn('Could not fetch TURN credentials:', error);
+    return servers;
+  }
+}
+
+// ============= CONNECTION POLICY =============
+
+// 'lan' connects only within the local network: no STUN or TURN, and only
+// the peer's host candidates. 'direct' tries every path and relays as a last
+// resort. 'relay' always goes through TURN, so neither device learns the
+// other's IP address.
+export type ConnectionPolicy = 'lan' | 'direct' | 'relay';
+
+export class ConnectionPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConnectionPolicyError';
+  }
+}
+
+// The candidate pair ICE picked: how each side is reached
+export interface ConnectionPath {
+  local: RTCIceCandidateType;
+  remote: RTCIceCandidateType;
+  // Both ends' addresses, when the browser reports them
+  localAddress?: string;
+  remoteAddress?: string;
+  protocol: string;
+}
+
+export function hasTurnServer(servers: RTCIceServer[]): boolean {
+  return servers.some(server => iceUrls(server).some(url => url.startsWith('turn')));
+}
+
+// The type of an a=candidate line or RTCIceCandidate.candidate string
+export function candidateType(candidate: string): RTCIceCandidateType | null {
+  const match = / typ (host|srflx|prflx|relay)\b/.exec(candidate);
+  return match ? (match[1] as RTCIceCandidateType) : null;
+}
+
+// Drop every candidate but host ones from a session description
+export function keepHostCandidates(sdp: string): string {
+  return sdp
+    .split('\r\n')
+    .filter(line => !line.startsWith('a=candidate:') || candidateType(line) === 'host')
+    .join('\r\n');
+}
+
+function normalizeAddress(address: string): string {
+  // Brackets and zone ids (fe80::1%eth0) aren't part of the address
+  return address.toLowerCase().replace(/^\[|\]$/g, '').split('%')[0];
+}
+
+// The eight 16-bit groups of an IPv6 address, or null if it isn't one.
+// An embedded IPv4 address (::ffff:10.0.0.1) becomes the last two groups.
+function ipv6Groups(address: string): number[] | null {
+  let host = normalizeAddress(address);
+  const embedded = /^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(host);
+  if (embedded) {
+    const [a, b, c, d] = embedded.slice(2).map(Number);
+    host = `${embedded[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = host.split('::');
+  if (halves.length > 2) return null;
+  const parse = (part: string) => (part ? part.split(':') : []);
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const gap = halves.length === 2 ? 8 - head.length - tail.length : 0;
+  if (gap < 0 || ![...head, ...tail].every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+
+  const groups = [...head, ...Array(gap).fill('0'), ...tail].map(group => parseInt(group, 16));
+  return groups.length === 8 ? groups : null;
+}
+
+function isPrivateIpv4(a: number, b: number): boolean {
+  return a === 10 || a === 127 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168)
+    || (a === 169 && b === 254)
+    // Carrier-grade NAT, also used by overlay networks such as Tailscale
+    || (a === 100 && b >= 64 && b <= 127);
+}
+
+// Private, link-local, loopback and CGNAT ranges, IPv4-mapped IPv6 forms
+// of those, and mDNS host names
+export function isPrivateAddress(address: string): boolean {
+  const host = normalizeAddress(address);
+  if (host.endsWith('.local')) return true;
+  const ipv4 = /^(\d+)\.(\d+)\.\d+\.\d+$/.exec(host);
+  if (ipv4) return isPrivateIpv4(Number(ipv4[1]), Number(ipv4[2]));
+
+  const groups = ipv6Groups(host);
+  if (!groups) return false;
+  // ::ffff:a.b.c.d
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    return isPrivateIpv4(groups[6] >> 8, groups[6] & 0xff);
+  }
+  const loopback = groups.slice(0, 7).every(group => group === 0) && groups[7] === 1;
+  // fc00::/7 unique local, fe80::/10 link-local
+  return loopback || (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80;
+}
+
+// Global IPv6 addresses in the same /64 are on the same link
+function sharesIpv6Subnet(a: string | undefined, b: string | undefined): boolean {
+  const first = a && ipv6Groups(a);
+  const second = b && ipv6Groups(b);
+  return !!first && !!second && first.slice(0, 4).every((group, i) => group === second[i]);
+}
+
+// Host candidates on both ends, or one the peer turned up from there. A
+// peer-reflexive candidate may just as well be a public address, so it
+// counts only when its address is a private one or in our IPv6 subnet; so
+// does a host candidate whose address is known.
+export function isLocalPath({ local, remote, localAddress, remoteAddress }: ConnectionPath): boolean {
+  if (local !== 'host') return false;
+  const nearby = !!remoteAddress && (isPrivateAddress(remoteAddress) || sharesIpv6Subnet(localAddress, remoteAddress));
+  if (remote === 'host') return !remoteAddress || nearby;
+  return remote === 'prflx' && nearby;
+}
+
+export function isRelayedPath({ local, remote }: ConnectionPath): boolean {
+  return local === 'relay' || remote === 'relay';
+}
@@ -0,0 +1,183 @@
+// Pairing without a signaling server: the offer or answer, with its public
+// key, is deflated and written out as text the other device scans or pastes.
+//
+// Pairing codes come in two spellings. The copyable one is `p2ps:` plus
+// base64url. For QR codes the data is base45 (RFC 9285), which fits QR's
+// alphanumeric mode, and is split into parts of the form
+// `P2PS:<id>:<index>/<count>:<data>` that can be shown one after another.
+
+import { compressChunk, decompressChunk } from './compression';
+import type { SessionDescription } from './signaling';
+
+export type SignalKind = 'offer' | 'answer';
+
+export interface ManualSignal {
+  kind: SignalKind;
+  description: SessionDescription;
+}
+
+const TEXT_PREFIX = 'p2ps:';
+const QR_PREFIX = 'P2PS:';
+// Base45 characters per QR code; small enough for a phone camera to read
+// off a laptop screen at medium error correction
+const QR_PART_LENGTH = 300;
+// A decoded signal is a few KB; refuse anything that inflates far beyond
+const MAX_SIGNAL_BYTES = 64 * 1024;
+const MAX_QR_PARTS = 64;
+const QR_PART = /^P2PS:(\d+):(\d+)\/(\d+):(.*)$/;
+
+// ============= ENCODINGS =============
+
+const BASE45_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+function toBase45(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 2) {
+    if (i + 1 < bytes.length) {
+      let n = bytes[i] * 256 + bytes[i + 1];
+      for (let digit = 0; digit < 3; digit++) {
+        out += BASE45_CHARSET[n % 45];
+        n = Math.floor(n / 45);
+      }
+    } else {
+      out += BASE45_CHARSET[bytes[i] % 45] + BASE45_CHARSET[Math.floor(bytes[i] / 45)];
+    }
+  }
+  return out;
+}
+
+function fromBase45(text: string): Uint8Array {
+  if (text.length % 3 === 1) throw new Error('Invalid base45 length');
+  const out = new Uint8Array(Math.floor(text.length / 3) * 2 + (text.length % 3 === 2 ? 1 : 0));
+  let offset = 0;
+
+  for (let i = 0; i < text.length; i += 3) {
+    const digits = text.slice(i, i + 3).split('').map(char => {
+      const value = BASE45_CHARSET.indexOf(char);
+      if (value < 0) throw new Error('Invalid base45 character');
+      return value;
+    });
+    const n = digits.reduce((sum, value, index) => sum + value * 45 ** index, 0);
+    if (digits.length === 3) {
+      if (n > 0xffff) throw new Error('Invalid base45 group');
+      out[offset++] = n >> 8;
+      out[offset++] = n & 0xff;
+    } else {
+      if (n > 0xff) throw new Error('Invalid base45 group');
+      out[offset++] = n;
+    }
+  }
+  return out;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+// ============= SIGNALS =============
+
+// The SDP and public key are base64 JSON; deflate does far better on the
+// JSON itself
+async function pack({ kind, description }: ManualSignal): Promise<Uint8Array> {
+  const json = JSON.stringify({
+    k: kind,
+    d: JSON.parse(atob(description.sdp)),
+    p: description.publicKey ? JSON.parse(atob(description.publicKey)) : null,
+  });
+  return compressChunk(new TextEncoder().encode(json));
+}
+
+async function unpack(bytes: Uint8Array): Promise<ManualSignal> {
+  const inflated = await decompressChunk(bytes, MAX_SIGNAL_BYTES);
+  const { k, d, p } = JSON.parse(new TextDecoder().decode(inflated));
+  if ((k !== 'offer' && k !== 'answer') || typeof d?.sdp !== 'string' || d.type !== k) {
+    throw new Error('Not a pairing code');
+  }
+  return {
+    kind: k,
+    description: { sdp: btoa(JSON.stringify(d)), publicKey: p ? btoa(JSON.stringify(p)) : '' },
+  };
+}
+
+// The copyable spelling
+export async function encodeSignal(signal: ManualSignal): Promise<string> {
+  return TEXT_PREFIX + toBase64Url(await pack(signal));
+}
+
+// The QR spelling, as one or more parts
+export async function encodeSignalForQR(signal: ManualSignal): Promise<string[]> {
+  const data = toBase45(await pack(signal));
+  // Tells sequences apart; base45 data may contain ':' but the id doesn't
+  const id = String(crypto.getRandomValues(new Uint16Array(1))[0] % 10000).padStart(4, '0');
+  const count = Math.max(1, Math.ceil(data.length / QR_PART_LENGTH));
+
+  return Array.from({ length: count }, (_, index) =>
+    `${QR_PREFIX}${id}:${index + 1}/${count}:${data.slice(index * QR_PART_LENGTH, (index + 1) * QR_PART_LENGTH)}`
+  );
+}
+
+// Accepts a pasted copy string, or the parts of a QR sequence joined by
+// QRSequence
+export async function decodeSignal(text: string): Promise<ManualSignal> {
+  let trimmed = text.trim();
+  // A single scanned part, pasted as is
+  if (QR_PART.test(trimmed)) trimmed = new QRSequence().add(trimmed) ?? '';
+  try {
+    if (trimmed.startsWith(TEXT_PREFIX)) {
+      return await unpack(fromBase64Url(trimmed.slice(TEXT_PREFIX.length).replace(/\s+/g, '')));
+    }
+    if (trimmed.startsWith(QR_PREFIX)) {
+      return await unpack(fromBase45(trimmed.slice(QR_PREFIX.length)));
+    }
+  } catch (error) {
+    console.warn('Failed to decode pairing code:', error);
+  }
+  throw new Error('Not a pairing code');
+}
+
+export function isQRSignalPart(text: string): boolean {
+  return text.startsWith(QR_PREFIX);
+}
+
+// Collects scanned QR parts, in any order and with repeats, until a whole
+// sequence is in
+export class QRSequence {
+  private id: string | null = null;
+  private parts: string[] = [];
+
+  get received(): number {
+    return this.parts.filter(part => part !== undefined).length;
+  }
+
+  get total(): number {
+    return this.parts.length;
+  }
+
+  // Returns the joined code once every part has been seen
+  add(text: string): string | null {
+    const match = QR_PART.exec(text);
+    if (!match) return null;
+
+    const [, id, index, count, data] = match;
+    if (Number(count) > MAX_QR_PARTS) return null;
+    // A different sequence starts over
+    if (id !== this.id || Number(count) !== this.parts.length) {
+      this.id = id;
+      this.parts = new Array(Number(count));
+    }
+    const position = Number(index) - 1;
+    if (position < 0 || position >= this.parts.length) return null;
+    this.parts[position] = data;
+
+    return this.received === this.total ? QR_PREFIX + this.parts.join('') : null;
+  }
+}
@@ -0,0 +1,427 @@
+// Typed message model: JSON control messages exchanged over the data channel
+// and the local events WebRTCManager emits to the UI.
+
+import { z } from 'zod';
+import type { ByteRange } from './byteRanges';
+import type { ConnectionStats, FileTransfer, TransferOffer } from './webrtc';
+import type { ConnectionPath } from './iceServers';
+import type { TrickleCandidate } from './signaling';
+import { MAX_CHUNK_SIZE } from './protocol';
+
+// ============= WIRE MESSAGES =============
+
+export interface HelloMessage {
+  type: 'hello';
+  protocol: number;
+  minProtocol: number;
+  features: string[];
+  deviceId: string;
+  // The sender's identity key and its signature over both sides' ECDH keys
+  // for this session (sender's first); only sent on encrypted connections
+  identity?: { key: string; signature: string };
+}
+
+export interface ProtocolErrorMessage {
+  type: 'protocol-error';
+  reason: string;
+}
+
+export interface CalibrationPingMessage {
+  type: 'calibration-ping';
+  id: string;
+  size: number;
+}
+
+export interface CalibrationPongMessage {
+  type: 'calibration-pong';
+  id: string;
+  size: number;
+}
+
+// Binds a file id to the numeric stream id used in binary frames
+export interface StreamOpenMessage {
+  type: 'stream-open';
+  id: string;
+  stream: number;
+}
+
+export interface FileMetaMessage {
+  type: 'file-meta';
+  id: string;
+  // Encrypted (base64) when `encrypted` is set
+  name: string;
+  fileType: string;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  integrity?: 'sha-256';
+  // Relative path for files sent as part of a folder, also encrypted
+  path?: string;
+  encrypted: boolean;
+}
+
+export interface FileCompleteMessage {
+  type: 'file-complete';
+  id: string;
+  sha256?: string;
+}
+
+export interface FileAckMessage {
+  type: 'file-ack';
+  id: string;
+}
+
+export interface ResumeRequestMessage {
+  type: 'resume-request';
+  id: string;
+}
+
+export interface ResumeMapMessage {
+  type: 'resume-map';
+  id: string;
+  // False when the receiver has never seen the file
+  known: boolean;
+  ranges: ByteRange[];
+}
+
+// Batch manifest announcing files before any of them is sent; the receiver
+// accepts all, some or none of them first
+export interface TransferOfferMessage {
+  type: 'transfer-offer';
+  id: string;
+  totalSize: number;
+  files: Array<{
+    id: string;
+    // Encrypted (base64) when `encrypted` is set
+    name: string;
+    fileType: string;
+    size: number;
+    // Relative path for files sent as part of a folder, also encrypted
+    path?: string;
+    // SHA-256 of the content, with the swarm feature
+    contentId?: string;
+  }>;
+  // Device ids of everyone else offered the same files, who may then fetch
+  // them from the receiver too
+  swarmWith?: string[];
+  encrypted: boolean;
+}
+
+export interface TransferAnswerMessage {
+  type: 'transfer-answer';
+  id: string;
+  // Ids of the offered files the receiver wants; empty when declined
+  accepted: string[];
+  // Accepted files the receiver fetches piece by piece from the swarm
+  // instead of having them streamed
+  pull?: string[];
+}
+
+// Either side may pause or cancel a single file; the peer mirrors the state
+export interface TransferPauseMessage {
+  type: 'transfer-pause';
+  id: string;
+}
+
+export interface TransferCancelMessage {
+  type: 'transfer-cancel';
+  id: string;
+}
+
+// Which pieces of a file do you have? Asks for the piece hashes too when
+// `manifest` is set.
+export interface SwarmQueryMessage {
+  type: 'swarm-query';
+  contentId: string;
+  manifest: boolean;
+}
+
+// Have-map: piece index ranges the sender can serve right now. Also sent in
+// reply to a request for a piece it can't serve.
+export interface SwarmHaveMessage {
+  type: 'swarm-have';
+  contentId: string;
+  size: number;
+  pieces: ByteRange[];
+  pieceHashes?: string[];
+}
+
+export interface SwarmRequestMessage {
+  type: 'swarm-request';
+  contentId: string;
+  piece: number;
+}
+
+// Sent by a room's host: device ids of the other participants, so they can
+// connect to each other directly
+export interface PeerRosterMessage {
+  type: 'peer-roster';
+  devices: string[];
+}
+
+// Connection setup between two participants, relayed by the host
+export interface PeerSignalMessage {
+  type: 'peer-signal';
+  from: string;
+  to: string;
+  kind: 'offer' | 'answer';
+  description: string;
+  publicKey: string;
+}
+
+// ICE restart offer from the side that made the original offer, and the
+// other side's answer, while the data channel still gets through
+export interface IceRestartMessage {
+  type: 'ice-restart';
+  kind: 'offer' | 'answer';
+  description: string;
+}
+
+export type WireMessage =
+  | HelloMessage
+  | ProtocolErrorMessage
+  | CalibrationPingMessage
+  | CalibrationPongMessage
+  | StreamOpenMessage
+  | FileMetaMessage
+  | FileCompleteMessage
+  | FileAckMessage
+  | ResumeRequestMessage
+  | ResumeMapMessage
+  | TransferOfferMessage
+  | TransferAnswerMessage
+  | TransferPauseMessage
+  | TransferCancelMessage
+  | SwarmQueryMessage
+  | SwarmHaveMessage
+  | SwarmRequestMessage
+  | PeerRosterMessage
+  | PeerSignalMessage
+  | IceRestartMessage;
+
+export type WireMessageType = WireMessage['type'];
+
+// Runtime schemas mirroring the types above, used to validate peer input
+
+const byteCountSchema = z.number().int().nonnegative().max(Number.MAX_SAFE_INTEGER);
+
+const byteRangeSchema = z.tuple([byteCountSchema, byteCountSchema]).refine(([start, end]) => start <= end);
+
+const contentIdSchema = z.string().regex(/^[0-9a-f]{64}$/);
+
+const helloSchema = z.object({
+  type: z.literal('hello'),
+  protocol: z.number().int(),
+  minProtocol: z.number().int(),
+  features: z.array(z.string()),
+  deviceId: z.string(),
+  identity: z.object({ key: z.string(), signature: z.string() }).optional(),
+});
+
+const protocolErrorSchema = z.object({
+  type: z.literal('protocol-error'),
+  reason: z.string(),
+});
+
+const calibrationPingSchema = z.object({
+  type: z.literal('calibration-ping'),
+  id: z.string(),
+  size: z.number().int().positive(),
+});
+
+const calibrationPongSchema = z.object({
+  type: z.literal('calibration-pong'),
+  id: z.string(),
+  size: z.number().int().positive(),
+});
+
+const streamOpenSchema = z.object({
+  type: z.literal('stream-open'),
+  id: z.string(),
+  stream: z.number().int().positive(),
+});
+
+const fileMetaSchema = z.object({
+  type: z.literal('file-meta'),
+  id: z.string(),
+  name: z.string(),
+  fileType: z.string(),
+  size: byteCountSchema,
+  chunkSize: z.number().int().positive().max(MAX_CHUNK_SIZE),
+  chunkCount: z.number().int().nonnegative(),
+  integrity: z.literal('sha-256').optional(),
+  path: z.string().optional(),
+  encrypted: z.boolean(),
+});
+
+const fileCompleteSchema = z.object({
+  type: z.literal('file-complete'),
+  id: z.string(),
+  sha256: z.string().optional(),
+});
+
+const fileAckSchema = z.object({
+  type: z.literal('file-ack'),
+  id: z.string(),
+});
+
+const resumeRequestSchema = z.object({
+  type: z.literal('resume-request'),
+  id: z.string(),
+});
+
+const resumeMapSchema = z.object({
+  type: z.literal('resume-map'),
+  id: z.string(),
+  known: z.boolean(),
+  ranges: z.array(byteRangeSchema),
+});
+
+const transferOfferSchema = z.object({
+  type: z.literal('transfer-offer'),
+  id: z.string(),
+  totalSize: byteCountSchema,
+  files: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    fileType: z.string(),
+    size: byteCountSchema,
+    path: z.string().optional(),
+    contentId: contentIdSchema.optional(),
+  })),
+  swarmWith: z.array(z.string().max(64)).max(64).optional(),
+  encrypted: z.boolean(),
+});
+
+const transferAnswerSchema = z.object({
+  type: z.literal('transfer-answer'),
+  id: z.string(),
+  accepted: z.array(z.string()),
+  pull: z.array(z.string()).optional(),
+});
+
+const transferPauseSchema = z.object({
+  type: z.literal('transfer-pause'),
+  id: z.string(),
+});
+
+const transferCancelSchema = z.object({
+  type: z.literal('transfer-cancel'),
+  id: z.string(),
+});
+
+const swarmQuerySchema = z.object({
+  type: z.literal('swarm-query'),
+  contentId: contentIdSchema,
+  manifest: z.boolean(),
+});
+
+const swarmHaveSchema = z.object({
+  type: z.literal('swarm-have'),
+  contentId: contentIdSchema,
+  size: byteCountSchema,
+  pieces: z.array(byteRangeSchema),
+  pieceHashes: z.array(z.string()).optional(),
+});
+
+const swarmRequestSchema = z.object({
+  type: z.literal('swarm-request'),
+  contentId: contentIdSchema,
+  piece: z.number().int().nonnegative(),
+});
+
+const peerRosterSchema = z.object({
+  type: z.literal('peer-roster'),
+  devices: z.array(z.string()),
+});
+
+const peerSignalSchema = z.object({
+  type: z.literal('peer-signal'),
+  from: z.string(),
+  to: z.string(),
+  kind: z.enum(['offer', 'answer']),
+  description: z.string(),
+  publicKey: z.string(),
+});
+
+const iceRestartSchema = z.object({
+  type: z.literal('ice-restart'),
+  kind: z.enum(['offer', 'answer']),
+  description: z.string(),
+});
+
+export const wireMessageSchema = z.discriminatedUnion('type', [
+  helloSchema,
+  protocolErrorSchema,
+  calibrationPingSchema,
+  calibrationPongSchema,
+  streamOpenSchema,
+  fileMetaSchema,
+  fileCompleteSchema,
+  fileAckSchema,
+  resumeRequestSchema,
+  resumeMapSchema,
+  transferOfferSchema,
+  transferAnswerSchema,
+  transferPauseSchema,
+  transferCancelSchema,
+  swarmQuerySchema,
+  swarmHaveSchema,
+  swarmRequestSchema,
+  peerRosterSchema,
+  peerSignalSchema,
+  iceRestartSchema,
+]);
+
+// Parse and validate a control message from the peer. Returns null for
+// anything malformed instead of throwing into the receive pipeline.
+export function parseWireMessage(data: string): WireMessage | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    console.warn('Rejected peer message: not valid JSON');
+    return null;
+  }
+
+  const result = wireMessageSchema.safeParse(json);
+  if (!result.success) {
+    const type = (json as { type?: unknown })?.type;
+    console.warn(`Rejected peer message of type ${String(type)}:`, result.error.issues);
+    return null;
+  }
+  return result.data as WireMessage;
+}
+
+// ============= LOCAL EVENTS =============
+
+export interface WebRTCEvents {
+  // Data channel is open and the protocol handshake succeeded
+  channelOpen: void;
+  channelClose: void;
+  connectionState: { state: RTCIceConnectionState | RTCPeerConnectionState };
+  // The connection dropped and ICE is being restarted; `recovered` once it
+  // is back, `failed` once we give up on it
+  reconnect: { state: 'reconnecting' | 'recovered' | 'failed'; attempt?: number };
+  // The network path ICE picked, on connecting and after each restart
+  path: ConnectionPath;
+  // A local ICE candidate, or null once gathering is done (see trickle())
+  iceCandidate: { candidate: TrickleCandidate | null };
+  protocolError: { message: string };
+  calibrationStart: void;
+  calibrationComplete: { stats: ConnectionStats };
+  file: FileTransfer;
+  // The peer wants to send files and is waiting for acceptOffer/declineOffer
+  offer: TransferOffer;
+  // The peer withdrew an offer before it was answered
+  offerWithdrawn: { id: string };
+  // Have-map from the peer for a swarm file
+  swarmHave: SwarmHaveMessage;
+  // Room members we could connect to directly, and relayed setup for those
+  // connections (see PeerRoom)
+  peerRoster: { devices: string[] };
+  peerSignal: PeerSignalMessage;
+  error: { error: Event };
+}
+
+export type WebRTCEventName = keyof WebRTCEvents;
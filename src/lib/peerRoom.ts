@@ -0,0 +1,549 @@
+// Rooms with several devices. The host keeps one WebRTCManager per
+// participant and everyone else connects to the host (a star), so a file
+// sent to the room goes out once per recipient. Participants that speak the
+// swarm protocol also connect to each other, with the host relaying the
+// setup, so they can pull pieces of a file from one another. One-to-one
+// sessions are a room with a single participant.
+
+import { webrtc, WebRTCManager, type FileTransfer, type TransferOffer } from './webrtc';
+import type { ConnectionPath } from './iceServers';
+import type { PeerSignalMessage } from './messages';
+import { TypedEventEmitter } from './eventEmitter';
+import { getDeviceId } from './deviceIdentity';
+import { SwarmDownload } from './swarmDownload';
+import { SwarmLibrary } from './swarm';
+import { ROOM_FULL_ANSWER, waitForAnswer, type SessionDescription, type SignalingTransport } from './signaling';
+
+export interface Participant {
+  id: string;
+  // Short label derived from the peer's device id
+  name: string;
+  deviceId: string | null;
+  // The connection dropped and is being restored
+  reconnecting?: boolean;
+  // How the connection reaches the participant, once known
+  path?: ConnectionPath;
+}
+
+export interface PeerRoomEvents {
+  // Connected participants, whenever someone joins or leaves
+  participants: Participant[];
+  participantJoined: Participant;
+  participantLeft: Participant;
+  // Transfers from every participant; a file sent to several of them is
+  // reported as one transfer with per-recipient progress
+  file: FileTransfer;
+  offer: TransferOffer;
+  offerWithdrawn: { id: string };
+}
+
+interface Member {
+  participant: Participant;
+  manager: WebRTCManager;
+  state: 'idle' | 'connecting' | 'connected';
+  unsubscribe: Array<() => void>;
+  // Stops swapping ICE candidates through the room once connected
+  stopTrickle: (() => void) | null;
+}
+
+export interface HostOptions {
+  // Devices connected at the same time
+  maxPeers: number;
+  // Devices admitted over the room's lifetime; unlimited when unset
+  maxJoiners?: number;
+  // When the PIN stops working; defaults to the table's ten minutes
+  expiresAt?: Date;
+}
+
+const PRIMARY_ID = 'primary';
+
+// Participants connected to directly are tracked under their device id
+function meshId(deviceId: string): string {
+  return `mesh-${deviceId}`;
+}
+
+// How long a joiner waits for the host to answer its offer
+const ANSWER_TIMEOUT_MS = 30000;
+
+// When recipients of one file disagree, the first status here that any of
+// them has is shown for the file
+const STATUS_PRIORITY: FileTransfer['status'][] = [
+  'transferring', 'pending', 'paused', 'error', 'corrupted', 'completed', 'cancelled', 'declined',
+];
+
+function participantName(deviceId: string | null): string {
+  return deviceId ? `Device ${deviceId.slice(0, 4).toUpperCase()}` : 'Device';
+}
+
+export class PeerRoom {
+  private members: Map<string, Member> = new Map();
+  private events = new TypedEventEmitter<PeerRoomEvents>();
+  // Latest state of each outgoing file per recipient
+  private outgoing: Map<string, Map<string, { name: string; transfer: FileTransfer }>> = new Map();
+  // Pending incoming offers and the manager each arrived through
+  private offers: Map<string, { manager: WebRTCManager; offer: TransferOffer }> = new Map();
+  // Incoming files pulled from the swarm, by transfer id
+  private downloads: Map<string, SwarmDownload> = new Map();
+  // What we can serve to the others, shared by every connection in the room
+  private library = new SwarmLibrary();
+  private stopListening: (() => void) | null = null;
+  private hostedPin: string | null = null;
+  // The transport the hosted room was opened on
+  private hostSignaling: SignalingTransport | null = null;
+  private admitted = 0;
+  private primaryTaken = false;
+  private group = false;
+  // Whether we opened the room, and so relay between participants
+  private hosting = false;
+
+  constructor(readonly primary: WebRTCManager) {
+    this.track(PRIMARY_ID, primary);
+  }
+
+  // Subscribe to a room event; returns an unsubscribe function
+  on<K extends keyof PeerRoomEvents>(event: K, handler: (payload: PeerRoomEvents[K]) => void): () => void {
+    return this.events.on(event, handler);
+  }
+
+  isGroup(): boolean {
+    return this.group;
+  }
+
+  getParticipants(): Participant[] {
+    return [...this.members.values()]
+      .filter(member => member.state === 'connected')
+      .map(member => member.participant);
+  }
+
+  getManager(participantId: string): WebRTCManager | undefined {
+    return this.members.get(participantId)?.manager;
+  }
+
+  // ============= GROUP SIGNALING =============
+
+  // Open a room several devices can join. The first joiner is answered by
+  // the primary manager, later ones by managers of their own.
+  async host(pin: string, options: HostOptions) {
+    const signaling = this.primary.signaling;
+    await signaling.createRoom(pin, { maxPeers: options.maxPeers, expiresAt: options.expiresAt });
+
+    this.group = true;
+    this.hosting = true;
+    this.hostedPin = pin;
+    this.hostSignaling = signaling;
+    this.admitted = 0;
+    this.stopListening = signaling.onOffer(pin, (peerId, offer) => this.answerPeer(pin, peerId, offer, options));
+  }
+
+  // Stop admitting joiners and retire the PIN; connections stay up
+  stopHosting() {
+    this.stopListening?.();
+    this.stopListening = null;
+    if (this.hostedPin) {
+      this.hostSignaling.close(this.hostedPin).catch((error) => {
+        console.warn('Failed to delete room:', error);
+      });
+      this.hostedPin = null;
+    }
+  }
+
+  private async answerPeer(pin: string, peerId: string, offer: SessionDescription, options: HostOptions) {
+    const taken = [...this.members.values()].filter(member => member.state !== 'idle').length;
+    if (taken >= options.maxPeers || this.admitted >= (options.maxJoiners ?? Infinity)) {
+      console.warn(`Room is full, turning away participant ${peerId}`);
+      this.hostSignaling.publishAnswer(pin, ROOM_FULL_ANSWER, peerId).catch((error) => {
+        console.warn('Failed to turn away participant:', error);
+      });
+      return;
+    }
+    this.admitted++;
+
+    const id = this.primaryTaken ? peerId : PRIMARY_ID;
+    if (this.primaryTaken) {
+      this.track(id, new WebRTCManager({ ...this.primary.config, restorePartials: false }));
+    }
+    this.primaryTaken = true;
+
+    const member = this.members.get(id);
+    member.state = 'connecting';
+    try {
+      const { answer, publicKey } = await member.manager.handleOffer(offer.sdp, offer.publicKey, { trickle: true });
+      await this.hostSignaling.publishAnswer(pin, { sdp: answer, publicKey }, peerId);
+      member.stopTrickle = member.manager.trickle(this.hostSignaling, pin, 'answerer', peerId);
+    } catch (error) {
+      console.error('Failed to answer participant:', error);
+      this.release(id);
+    }
+  }
+
+  // Join a room opened with host(): post our offer and wait for the answer
+  async join(pin: string) {
+    const signaling = this.primary.signaling;
+    const { offer, publicKey } = await this.primary.createOffer({ trickle: true });
+    const peerId = await signaling.publishOffer(pin, { sdp: offer, publicKey });
+
+    this.group = true;
+    const member = this.members.get(PRIMARY_ID);
+    member.stopTrickle = this.primary.trickle(signaling, pin, 'offerer', peerId);
+    try {
+      const answer = await waitForAnswer(signaling, pin, ANSWER_TIMEOUT_MS, peerId);
+      await this.primary.handleAnswer(answer.sdp, answer.publicKey);
+    } catch (error) {
+      this.stopTrickle(member);
+      throw error;
+    }
+  }
+
+  // ============= PARTICIPANTS =============
+
+  private track(id: string, manager: WebRTCManager) {
+    const member: Member = {
+      participant: { id, name: participantName(null), deviceId: null },
+      manager,
+      state: 'idle',
+      unsubscribe: [],
+      stopTrickle: null,
+    };
+    this.members.set(id, member);
+    manager.setSwarmLibrary(this.library);
+
+    member.unsubscribe.push(
+      manager.on('channelOpen', () => {
+        this.stopTrickle(member);
+        const deviceId = manager.getPeerDeviceId();
+        member.participant = { id, name: participantName(deviceId), deviceId, path: manager.getConnectionPath() ?? undefined };
+        member.state = 'connected';
+        this.emitParticipants();
+        this.events.emit('participantJoined', member.participant);
+        this.sendRosters();
+        // The primary is calibrated by the transfer screen
+        if (manager !== this.primary) {
+          manager.calibrateConnection().catch(error => console.warn('Calibration failed:', error));
+        }
+      }),
+      manager.on('channelClose', () => this.leave(id)),
+      // Connections that were up are restarted before anyone gives up on them
+      manager.on('connectionState', ({ state }) => {
+        if (state === 'failed' && member.state === 'connecting') this.leave(id);
+      }),
+      manager.on('reconnect', ({ state }) => {
+        if (state === 'failed') {
+          this.leave(id);
+        } else if (member.state === 'connected') {
+          member.participant = { ...member.participant, reconnecting: state === 'reconnecting' };
+          this.emitParticipants();
+        }
+      }),
+      manager.on('path', (path) => {
+        member.participant = { ...member.participant, path };
+        if (member.state === 'connected') this.emitParticipants();
+      }),
+      manager.on('file', (transfer) => this.handleFile(id, transfer)),
+      manager.on('offer', (offer) => {
+        this.offers.set(offer.id, { manager, offer });
+        this.events.emit('offer', offer);
+      }),
+      manager.on('offerWithdrawn', ({ id: offerId }) => {
+        this.offers.delete(offerId);
+        this.events.emit('offerWithdrawn', { id: offerId });
+      }),
+      manager.on('peerRoster', ({ devices }) => {
+        if (manager === this.primary && !this.hosting) this.connectMesh(devices);
+      }),
+      manager.on('peerSignal', (signal) => this.handlePeerSignal(member, signal)),
+    );
+  }
+
+  private leave(id: string) {
+    const member = this.members.get(id);
+    if (!member || member.state === 'idle') return;
+
+    const wasConnected = member.state === 'connected';
+    member.state = 'idle';
+    // The manager already dropped offers it was holding
+    this.offers.forEach(({ manager }, offerId) => {
+      if (manager === member.manager) this.offers.delete(offerId);
+    });
+    if (member.manager !== this.primary) {
+      // Nobody can resume with a manager that is gone
+      this.failOutgoing(id);
+      this.release(id);
+    } else {
+      // The next joiner can have it
+      this.primaryTaken = false;
+    }
+    if (wasConnected) {
+      this.emitParticipants();
+      this.events.emit('participantLeft', member.participant);
+      this.sendRosters();
+    }
+  }
+
+  // Drop an extra manager for good; the primary is only reset
+  private release(id: string) {
+    const member = this.members.get(id);
+    if (!member) return;
+
+    member.state = 'idle';
+    this.stopTrickle(member);
+    if (member.manager === this.primary) {
+      this.primaryTaken = false;
+      return;
+    }
+    member.unsubscribe.forEach(unsubscribe => unsubscribe());
+    member.manager.destroy();
+    this.members.delete(id);
+  }
+
+  private stopTrickle(member: Member) {
+    member.stopTrickle?.();
+    member.stopTrickle = null;
+  }
+
+  private emitParticipants() {
+    this.events.emit('participants', this.getParticipants());
+  }
+
+  // ============= MESH =============
+
+  // As host, tell each participant who else is here
+  private sendRosters() {
+    if (!this.hosting) return;
+    const connected = [...this.members.values()].filter(member => member.state === 'connected' && member.participant.deviceId);
+    connected.forEach((member) => {
+      const others = connected.filter(other => other !== member).map(other => other.participant.deviceId);
+      member.manager.sendPeerRoster(others);
+    });
+  }
+
+  // As participant, connect to the others. The device with the smaller id
+  // dials, so two devices never dial each other.
+  private connectMesh(devices: string[]) {
+    const self = getDeviceId();
+    devices.forEach((deviceId) => {
+      if (deviceId >= self || this.members.has(meshId(deviceId))) return;
+      this.dialMesh(deviceId).catch((error) => {
+        console.warn(`Failed to connect to ${participantName(deviceId)}:`, error);
+        this.release(meshId(deviceId));
+      });
+    });
+  }
+
+  private async dialMesh(deviceId: string) {
+    const manager = this.trackMesh(deviceId);
+    const { offer, publicKey } = await manager.createOffer();
+    this.primary.sendPeerSignal({
+      type: 'peer-signal',
+      from: getDeviceId(),
+      to: deviceId,
+      kind: 'offer',
+      description: offer,
+      publicKey,
+    });
+  }
+
+  private trackMesh(deviceId: string): WebRTCManager {
+    const id = meshId(deviceId);
+    const manager = new WebRTCManager({ ...this.primary.config, restorePartials: false });
+    this.track(id, manager);
+    this.members.get(id).state = 'connecting';
+
+    // Give up on peers we can't reach; the star connection still works
+    setTimeout(() => {
+      const member = this.members.get(id);
+      if (member?.manager === manager && member.state === 'connecting') this.release(id);
+    }, ANSWER_TIMEOUT_MS);
+    return manager;
+  }
+
+  private async handlePeerSignal(from: Member, signal: PeerSignalMessage) {
+    if (this.hosting) {
+      // Pass it on, stamped with the device it really came from
+      const target = [...this.members.values()].find(
+        member => member.state === 'connected' && member.participant.deviceId === signal.to
+      );
+      target?.manager.sendPeerSignal({ ...signal, from: from.participant.deviceId });
+      return;
+    }
+    // Only the host relays
+    if (from.manager !== this.primary || signal.to !== getDeviceId()) return;
+
+    const id = meshId(signal.from);
+    try {
+      if (signal.kind === 'offer') {
+        if (this.members.has(id)) return;
+        const { answer, publicKey } = await this.trackMesh(signal.from).handleOffer(signal.description, signal.publicKey);
+        this.primary.sendPeerSignal({
+          type: 'peer-signal',
+          from: getDeviceId(),
+          to: signal.from,
+          kind: 'answer',
+          description: answer,
+          publicKey,
+        });
+      } else {
+        await this.members.get(id)?.manager.handleAnswer(signal.description, signal.publicKey);
+      }
+    } catch (error) {
+      console.warn(`Failed to connect to ${participantName(signal.from)}:`, error);
+      this.release(id);
+    }
+  }
+
+  // ============= TRANSFERS =============
+
+  private handleFile(participantId: string, transfer: FileTransfer) {
+    if (transfer.direction === 'receiving' || !this.group) {
+      this.events.emit('file', transfer);
+      return;
+    }
+
+    let recipients = this.outgoing.get(transfer.id);
+    if (!recipients) {
+      recipients = new Map();
+      this.outgoing.set(transfer.id, recipients);
+    }
+    const name = this.members.get(participantId)?.participant.name ?? recipients.get(participantId)?.name;
+    recipients.set(participantId, { name, transfer });
+    this.events.emit('file', this.mergeRecipients(recipients));
+  }
+
+  private mergeRecipients(recipients: Map<string, { name: string; transfer: FileTransfer }>): FileTransfer {
+    const transfers = [...recipients.values()].map(({ transfer }) => transfer);
+    const counted = transfers.filter(t => t.status !== 'declined' && t.status !== 'cancelled');
+    const progress = counted.length > 0
+      ? Math.round(counted.reduce((acc, t) => acc + t.progress, 0) / counted.length)
+      : 0;
+
+    return {
+      ...transfers[0],
+      progress,
+      status: STATUS_PRIORITY.find(status => transfers.some(t => t.status === status)) ?? transfers[0].status,
+      resumable: transfers.some(t => t.resumable),
+      recipients: [...recipients].map(([participantId, { name, transfer }]) => ({
+        participantId,
+        name,
+        progress: transfer.progress,
+        status: transfer.status,
+      })),
+    };
+  }
+
+  private failOutgoing(participantId: string) {
+    this.outgoing.forEach((recipients) => {
+      const entry = recipients.get(participantId);
+      if (!entry || !['pending', 'transferring', 'paused'].includes(entry.transfer.status)) return;
+      recipients.set(participantId, { ...entry, transfer: { ...entry.transfer, status: 'error', resumable: false } });
+      this.events.emit('file', this.mergeRecipients(recipients));
+    });
+  }
+
+  private managersWith(id: string): WebRTCManager[] {
+    return [...this.members.values()]
+      .map(member => member.manager)
+      .filter(manager => manager.hasTransfer(id));
+  }
+
+  pauseTransfer(id: string) {
+    this.downloads.get(id)?.pause();
+    this.managersWith(id).forEach(manager => manager.pauseTransfer(id));
+  }
+
+  cancelTransfer(id: string) {
+    this.downloads.get(id)?.cancel();
+    this.managersWith(id).forEach(manager => manager.cancelTransfer(id));
+  }
+
+  // Resume with every recipient still connected
+  async resumeTransfer(id: string) {
+    const download = this.downloads.get(id);
+    if (download) {
+      download.resume();
+      return;
+    }
+
+    const managers = this.managersWith(id).filter(manager => manager.isConnected());
+    if (managers.length === 0) {
+      throw new Error('Data channel not ready');
+    }
+    await Promise.all(managers.map(manager => manager.resumeTransfer(id)));
+  }
+
+  repairTransfer(id: string) {
+    const managers = this.managersWith(id).filter(manager => manager.isConnected());
+    if (managers.length === 0) {
+      throw new Error('Data channel not ready');
+    }
+    managers.forEach(manager => manager.repairTransfer(id));
+  }
+
+  // In a group room, files with a content id are pulled from every
+  // participant that has them rather than streamed by the sender alone
+  acceptOffer(id: string, options: Parameters<WebRTCManager['acceptOffer']>[1] = {}) {
+    const pending = this.offers.get(id);
+    this.offers.delete(id);
+    if (!pending) return;
+
+    const { manager, offer } = pending;
+    const pulled = this.group && manager.hasFeature('swarm')
+      ? offer.files.filter(file => file.contentId && (!options.fileIds || options.fileIds.includes(file.id)))
+      : [];
+    manager.acceptOffer(id, { ...options, pull: pulled.map(file => file.id) });
+
+    pulled.forEach(({ id: fileId, name, type, size, path, contentId }) => {
+      const download = new SwarmDownload(
+        { id: fileId, batchId: offer.id, name, type, size, contentId, path, destination: options.destination },
+        manager,
+        () => this.swarmPeers(),
+        this.library,
+      );
+      this.downloads.set(fileId, download);
+      download.on('update', (transfer) => {
+        this.events.emit('file', transfer);
+        if (['completed', 'cancelled', 'error'].includes(transfer.status)) this.downloads.delete(fileId);
+      });
+      download.start();
+    });
+  }
+
+  declineOffer(id: string) {
+    this.offers.get(id)?.manager.declineOffer(id);
+    this.offers.delete(id);
+  }
+
+  private swarmPeers(): WebRTCManager[] {
+    return [...this.members.values()]
+      .filter(member => member.state === 'connected' && member.manager.hasFeature('swarm'))
+      .map(member => member.manager);
+  }
+
+  getResumableTransfers(): { sending: FileTransfer[]; receiving: FileTransfer[] } {
+    const sending: FileTransfer[] = [];
+    const receiving: FileTransfer[] = [];
+    this.members.forEach(({ manager }) => {
+      const transfers = manager.getResumableTransfers();
+      sending.push(...transfers.sending);
+      receiving.push(...transfers.receiving);
+    });
+    return { sending, receiving };
+  }
+
+  // Leave the room: stop accepting joiners and close every connection
+  disconnect() {
+    this.stopHosting();
+    this.downloads.forEach(download => download.cancel());
+    [...this.members.keys()].forEach(id => this.release(id));
+    this.primary.disconnect();
+
+    this.downloads.clear();
+    this.library.clear();
+    this.outgoing.clear();
+    this.offers.clear();
+    this.primaryTaken = false;
+    this.group = false;
+    this.hosting = false;
+  }
+}
+
+// Room around the shared manager
+export const peerRoom = new PeerRoom(webrtc);
@@ -0,0 +1,171 @@
+// Data channel wire protocol.
+//
+// Control messages are JSON strings. Binary messages are frames with a fixed
+// 24-byte big-endian header:
+//
+//   offset  size  field
+//   0       2     magic      0x5353 ("SS")
+//   2       1     version    protocol version of the sender
+//   3       1     type       FrameType
+//   4       1     flags      FrameFlags (ENCRYPTED, COMPRESSED)
+//   5       3     reserved   zero
+//   8       4     stream id  numeric id bound to a file with a stream-open message
+//   12      4     index      chunk index within the file
+//   16      8     offset     byte offset of the chunk within the file
+//   24      ...   body       [iv (12 bytes, if ENCRYPTED)][payload]
+//
+// A COMPRESSED payload is the chunk deflated (raw) before encryption; the
+// index and offset always refer to the uncompressed file.
+//
+// PIECE frames carry part of a swarm piece: the stream id is bound to a
+// content id, the index is the piece number and the offset is the byte
+// offset within the whole file.
+//
+// Before any file moves both peers exchange a hello message and agree on a
+// protocol version and feature set; peers that can't agree are disconnected.
+
+import type { HelloMessage } from './messages';
+import { supportsCompressionStream } from './compression';
+
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+// Optional capabilities, enabled only when both peers list them
+export const SUPPORTED_FEATURES = ['resume', 'sha256', 'consent', 'compression', 'swarm', 'ice-restart'] as const;
+export type ProtocolFeature = (typeof SUPPORTED_FEATURES)[number];
+
+// Features this browser can actually provide
+function localFeatures(): ProtocolFeature[] {
+  return SUPPORTED_FEATURES.filter(feature => feature !== 'compression' || supportsCompressionStream('deflate-raw'));
+}
+
+// Largest chunk a peer may announce; calibration never goes past it, and it
+// caps what one compressed chunk may inflate to
+export const MAX_CHUNK_SIZE = 256 * 1024;
+
+export const FRAME_MAGIC = 0x5353;
+export const FRAME_HEADER_LENGTH = 24;
+const IV_LENGTH = 12;
+
+export const FrameType = {
+  Chunk: 1,
+  Calibration: 2,
+  Piece: 3,
+} as const;
+export type FrameType = (typeof FrameType)[keyof typeof FrameType];
+
+export const FrameFlags = {
+  Encrypted: 1 << 0,
+  Compressed: 1 << 1,
+} as const;
+
+export interface Frame {
+  type: FrameType;
+  flags: number;
+  streamId: number;
+  index: number;
+  offset: number;
+  iv?: Uint8Array;
+  payload: Uint8Array;
+}
+
+export interface NegotiatedProtocol {
+  version: number;
+  features: Set<ProtocolFeature>;
+}
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+export function encodeFrame(frame: Omit<Frame, 'flags'> & { flags?: number }): ArrayBuffer {
+  const ivLength = frame.iv ? IV_LENGTH : 0;
+  const flags = (frame.flags ?? 0) | (frame.iv ? FrameFlags.Encrypted : 0);
+  const bytes = new Uint8Array(FRAME_HEADER_LENGTH + ivLength + frame.payload.length);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint16(0, FRAME_MAGIC);
+  view.setUint8(2, PROTOCOL_VERSION);
+  view.setUint8(3, frame.type);
+  view.setUint8(4, flags);
+  view.setUint32(8, frame.streamId);
+  view.setUint32(12, frame.index);
+  view.setUint32(16, Math.floor(frame.offset / 0x100000000));
+  view.setUint32(20, frame.offset >>> 0);
+
+  if (frame.iv) bytes.set(frame.iv, FRAME_HEADER_LENGTH);
+  bytes.set(frame.payload, FRAME_HEADER_LENGTH + ivLength);
+
+  return bytes.buffer;
+}
+
+export function decodeFrame(data: ArrayBuffer): Frame {
+  if (data.byteLength < FRAME_HEADER_LENGTH) {
+    throw new ProtocolError(`Frame too short (${data.byteLength} bytes)`);
+  }
+
+  const view = new DataView(data);
+  if (view.getUint16(0) !== FRAME_MAGIC) {
+    throw new ProtocolError('Not a protocol frame');
+  }
+
+  const version = view.getUint8(2);
+  if (version < MIN_PROTOCOL_VERSION || version > PROTOCOL_VERSION) {
+    throw new ProtocolError(`Unsupported frame version ${version}`);
+  }
+
+  const type = view.getUint8(3) as FrameType;
+  const flags = view.getUint8(4);
+  const encrypted = (flags & FrameFlags.Encrypted) !== 0;
+  const bodyStart = FRAME_HEADER_LENGTH + (encrypted ? IV_LENGTH : 0);
+
+  if (data.byteLength < bodyStart) {
+    throw new ProtocolError('Frame truncated before payload');
+  }
+
+  return {
+    type,
+    flags,
+    streamId: view.getUint32(8),
+    index: view.getUint32(12),
+    offset: view.getUint32(16) * 0x100000000 + view.getUint32(20),
+    iv: encrypted ? new Uint8Array(data, FRAME_HEADER_LENGTH, IV_LENGTH) : undefined,
+    payload: new Uint8Array(data, bodyStart),
+  };
+}
+
+export function createHello(deviceId: string, identity?: HelloMessage['identity']): HelloMessage {
+  return {
+    type: 'hello',
+    protocol: PROTOCOL_VERSION,
+    minProtocol: MIN_PROTOCOL_VERSION,
+    features: localFeatures(),
+    deviceId,
+    identity,
+  };
+}
+
+// Pick the highest version both sides speak and the features both support
+export function negotiateProtocol(remote: Partial<HelloMessage>): NegotiatedProtocol {
+  const remoteVersion = remote.protocol;
+  const remoteMin = remote.minProtocol ?? remoteVersion;
+
+  if (typeof remoteVersion !== 'number') {
+    throw new ProtocolError('Peer did not announce a protocol version');
+  }
+
+  const version = Math.min(PROTOCOL_VERSION, remoteVersion);
+  if (version < MIN_PROTOCOL_VERSION || version < remoteMin) {
+    throw new ProtocolError(
+      `Incompatible app versions (we speak ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}, peer speaks ${remoteMin}-${remoteVersion}). Please update both devices.`
+    );
+  }
+
+  const remoteFeatures = new Set(remote.features ?? []);
+  const features = new Set(localFeatures().filter(feature => remoteFeatures.has(feature)));
+
+  return { version, features };
+}
@@ -0,0 +1,259 @@
+// Signaling transports that speak the relay protocol from signalingRooms.ts:
+// a shared client, and BroadcastSignaling, which pairs tabs of the same
+// browser with no server at all, for trying the app on one machine.
+
+import type {
+  CreateRoomOptions,
+  FoundRoom,
+  IceRole,
+  SessionDescription,
+  SignalingTransport,
+  TrickleCandidate,
+} from './signaling';
+import {
+  RoomRegistry,
+  type RelayClientMessage,
+  type RelayRequest,
+  type RelayResult,
+  type RelayServerMessage,
+} from './signalingRooms';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+type RelaySuccess = Extract<RelayResult, { ok: true }>;
+
+export class SignalingTimeoutError extends Error {
+  constructor() {
+    super('Signaling request timed out');
+    this.name = 'SignalingTimeoutError';
+  }
+}
+
+function answerKey(pin: string, peerId?: string): string {
+  return peerId ? `${pin}:${peerId}` : pin;
+}
+
+function candidateKey(pin: string, role: IceRole, peerId?: string): string {
+  return `${answerKey(pin, peerId)}:${role}`;
+}
+
+function subscribe<H>(handlers: Map<string, Set<H>>, key: string, handler: H): () => void {
+  let set = handlers.get(key);
+  if (!set) {
+    set = new Set();
+    handlers.set(key, set);
+  }
+  set.add(handler);
+  return () => {
+    set.delete(handler);
+    if (set.size === 0) handlers.delete(key);
+  };
+}
+
+// Turns SignalingTransport calls into relay requests and dispatches what
+// comes back; subclasses only move messages
+export abstract class RelaySignaling implements SignalingTransport {
+  private pending: Map<string, { resolve: (result: RelaySuccess) => void; reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> }> = new Map();
+  private offerHandlers: Map<string, Set<(peerId: string, offer: SessionDescription) => void>> = new Map();
+  private answerHandlers: Map<string, Set<(answer: SessionDescription) => void>> = new Map();
+  // Answers that arrived before anyone subscribed
+  private answers: Map<string, SessionDescription> = new Map();
+  private candidateHandlers: Map<string, Set<(candidate: TrickleCandidate | null) => void>> = new Map();
+  private restartHandlers: Map<string, Set<(description: string) => void>> = new Map();
+
+  protected abstract send(message: RelayClientMessage): void;
+
+  protected request(request: RelayRequest, timeoutMs: number = REQUEST_TIMEOUT_MS): Promise<RelaySuccess> {
+    const requestId = crypto.randomUUID();
+    return new Promise<RelaySuccess>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new SignalingTimeoutError());
+      }, timeoutMs);
+      this.pending.set(requestId, { resolve, reject, timer });
+      this.send({ ...request, requestId });
+    });
+  }
+
+  protected receive(message: RelayServerMessage) {
+    if (message.type === 'result') {
+      const pending = this.pending.get(message.requestId);
+      if (!pending) return;
+      this.pending.delete(message.requestId);
+      clearTimeout(pending.timer);
+      if (message.ok === false) pending.reject(new Error(message.error));
+      else pending.resolve(message);
+    } else if (message.type === 'offered') {
+      this.offerHandlers.get(message.pin)?.forEach(handler => handler(message.peerId, message.offer));
+    } else if (message.type === 'answered') {
+      const key = answerKey(message.pin, message.peerId);
+      const handlers = this.answerHandlers.get(key);
+      if (handlers) handlers.forEach(handler => handler(message.answer));
+      else this.answers.set(key, message.answer);
+    } else if (message.type === 'candidate') {
+      const key = candidateKey(message.pin, message.role, message.peerId);
+      this.candidateHandlers.get(key)?.forEach(handler => handler(message.candidate));
+    } else if (message.type === 'restart') {
+      const key = candidateKey(message.pin, message.role, message.peerId);
+      this.restartHandlers.get(key)?.forEach(handler => handler(message.description));
+    }
+  }
+
+  // Whether anything still waits for pushes from the relay
+  protected isListening(): boolean {
+    return [this.offerHandlers, this.answerHandlers, this.candidateHandlers, this.restartHandlers]
+      .some(handlers => handlers.size > 0);
+  }
+
+  // Fail every request still waiting, e.g. when the connection drops
+  protected failPending(error: Error) {
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    this.pending.clear();
+  }
+
+  async createRoom(pin: string, { offer, expiresAt }: CreateRoomOptions) {
+    await this.request({ type: 'create', pin, offer, expiresAt: expiresAt?.getTime() });
+  }
+
+  async joinRoom(pin: string): Promise<FoundRoom | null> {
+    return (await this.request({ type: 'join', pin })).room ?? null;
+  }
+
+  async publishOffer(pin: string, offer: SessionDescription): Promise<string> {
+    return (await this.request({ type: 'offer', pin, offer })).peerId;
+  }
+
+  onOffer(pin: string, handler: (peerId: string, offer: SessionDescription) => void): () => void {
+    return subscribe(this.offerHandlers, pin, handler);
+  }
+
+  async publishAnswer(pin: string, answer: SessionDescription, peerId?: string) {
+    await this.request({ type: 'answer', pin, answer, peerId });
+  }
+
+  onAnswer(pin: string, handler: (answer: SessionDescription) => void, peerId?: string): () => void {
+    const key = answerKey(pin, peerId);
+    const early = this.answers.get(key);
+    if (early) {
+      this.answers.delete(key);
+      let cancelled = false;
+      queueMicrotask(() => {
+        if (!cancelled) handler(early);
+      });
+      return () => {
+        cancelled = true;
+      };
+    }
+    return subscribe(this.answerHandlers, key, handler);
+  }
+
+  async publishCandidate(pin: string, role: IceRole, candidate: TrickleCandidate | null, peerId?: string) {
+    await this.request({ type: 'candidate', pin, role, candidate, peerId });
+  }
+
+  onCandidate(
+    pin: string,
+    role: IceRole,
+    handler: (candidate: TrickleCandidate | null) => void,
+    peerId?: string
+  ): () => void {
+    let stopped = false;
+    // The relay answers with the replay before pushing anything newer
+    const unsubscribe = subscribe(this.candidateHandlers, candidateKey(pin, role, peerId), (candidate: TrickleCandidate | null) => {
+      if (!stopped) handler(candidate);
+    });
+    this.request({ type: 'watch-candidates', pin, role, peerId })
+      .then(({ candidates }) => candidates?.forEach(candidate => {
+        if (!stopped) handler(candidate);
+      }))
+      .catch((error) => console.warn('Failed to watch ICE candidates:', error));
+
+    return () => {
+      stopped = true;
+      unsubscribe();
+    };
+  }
+
+  async publishRestart(pin: string, role: IceRole, description: string, peerId?: string) {
+    await this.request({ type: 'restart', pin, role, description, peerId });
+  }
+
+  onRestart(pin: string, role: IceRole, handler: (description: string) => void, peerId?: string): () => void {
+    this.request({ type: 'watch-restarts', pin, role, peerId })
+      .catch((error) => console.warn('Failed to watch ICE restarts:', error));
+    return subscribe(this.restartHandlers, candidateKey(pin, role, peerId), handler);
+  }
+
+  async close(pin: string) {
+    await this.request({ type: 'close', pin });
+  }
+}
+
+// Requests carry no `to`; results and pushes are addressed to one tab
+interface Envelope {
+  from: string;
+  to?: string;
+  message: RelayClientMessage | RelayServerMessage;
+}
+
+// How long a join waits for some tab to claim the PIN
+const LOOKUP_TIMEOUT_MS = 1500;
+
+// Signaling between tabs (or several managers in one tab) over a
+// BroadcastChannel. Each tab keeps the rooms it hosts and answers requests
+// for them; rooms close with the tab.
+export class BroadcastSignaling extends RelaySignaling {
+  private id = crypto.randomUUID();
+  private channel: BroadcastChannel;
+  private rooms = new RoomRegistry();
+
+  constructor(name: string = 'secureShare_signaling') {
+    super();
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event: MessageEvent<Envelope>) => this.handleEnvelope(event.data);
+  }
+
+  // A PIN that no tab hosts gets no reply at all
+  async joinRoom(pin: string): Promise<FoundRoom | null> {
+    try {
+      return (await this.request({ type: 'join', pin }, LOOKUP_TIMEOUT_MS)).room ?? null;
+    } catch (error) {
+      if (error instanceof SignalingTimeoutError) return null;
+      throw error;
+    }
+  }
+
+  protected send(message: RelayClientMessage) {
+    // Creating a room, and anything about our own rooms, stays in this tab
+    if (message.type === 'create' || message.type === 'close' || this.rooms.has(message.pin)) {
+      queueMicrotask(() => this.serve(this.id, message));
+      return;
+    }
+    this.channel.postMessage({ from: this.id, message } satisfies Envelope);
+  }
+
+  private handleEnvelope({ from, to, message }: Envelope) {
+    if (to === this.id) {
+      this.receive(message as RelayServerMessage);
+    } else if (to === undefined) {
+      const request = message as RelayClientMessage;
+      if (this.rooms.has(request.pin)) this.serve(from, request);
+    }
+  }
+
+  private serve(client: string, { requestId, ...request }: RelayClientMessage) {
+    const result = this.rooms.handle(client, request as RelayRequest, (to, push) => this.deliver(to, push));
+    this.deliver(client, { type: 'result', requestId, ...result });
+  }
+
+  private deliver(to: string, message: RelayServerMessage) {
+    if (to === this.id) {
+      this.receive(message);
+    } else {
+      this.channel.postMessage({ from: this.id, to, message } satisfies Envelope);
+    }
+  }
+}
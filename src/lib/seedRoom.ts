@@ -0,0 +1,197 @@
+// Seeding: a group room that stays open for a while and offers the same
+// pinned files to every device that joins, without the host doing anything
+// per joiner. Pinned files are offered with their content id, so later
+// joiners can pull pieces from earlier ones as well as from the host.
+
+import type { SelectedFile } from './folders';
+import type { FileTransfer } from './webrtc';
+import type { Participant, PeerRoom } from './peerRoom';
+import { TypedEventEmitter } from './eventEmitter';
+import { contentIdOf } from './swarm';
+
+export interface SeedOptions {
+  // Devices admitted over the room's lifetime
+  maxJoiners: number;
+  lifetimeMinutes: number;
+  // Serve one joiner at a time, or everyone at once
+  mode: 'sequential' | 'concurrent';
+}
+
+export interface SeedJoiner {
+  participantId: string;
+  name: string;
+  joinedAt: number;
+  state: 'queued' | 'serving' | 'served' | 'left';
+}
+
+export interface SeedState {
+  pin: string | null;
+  expiresAt: number;
+  // Still admitting joiners
+  open: boolean;
+  joiners: SeedJoiner[];
+  // The pinned files, with progress per joiner in `recipients`
+  files: FileTransfer[];
+}
+
+interface SeedRoomEvents {
+  update: SeedState;
+}
+
+// A joiner that leaves the offer unanswered this long is skipped, so it
+// can't hold up the queue
+const OFFER_TIMEOUT_MS = 2 * 60 * 1000;
+
+export class SeedRoom {
+  private events = new TypedEventEmitter<SeedRoomEvents>();
+  private entries: Array<SelectedFile & { id: string; contentId?: string }>;
+  private batchId = crypto.randomUUID();
+  private joiners: Map<string, SeedJoiner> = new Map();
+  private files: Map<string, FileTransfer> = new Map();
+  private queue: string[] = [];
+  private serving = 0;
+  private pin: string | null = null;
+  private expiresAt = 0;
+  private open = false;
+  private expiryTimer: ReturnType<typeof setTimeout> | undefined;
+  private unsubscribe: Array<() => void> = [];
+
+  constructor(private room: PeerRoom, files: SelectedFile[], readonly options: SeedOptions) {
+    this.entries = files.map(selected => ({ id: crypto.randomUUID(), ...selected }));
+  }
+
+  on<K extends keyof SeedRoomEvents>(event: K, handler: (payload: SeedRoomEvents[K]) => void): () => void {
+    return this.events.on(event, handler);
+  }
+
+  getState(): SeedState {
+    return {
+      pin: this.pin,
+      expiresAt: this.expiresAt,
+      open: this.open,
+      joiners: [...this.joiners.values()],
+      files: this.entries.map(({ id, file, path }) => this.files.get(id) ?? {
+        id,
+        direction: 'sending',
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        progress: 0,
+        status: 'pending',
+        batchId: this.batchId,
+        path,
+      }),
+    };
+  }
+
+  async start(pin: string) {
+    await Promise.all(this.entries.map(async (entry) => {
+      entry.contentId = await contentIdOf(entry.file);
+    }));
+
+    const lifetime = this.options.lifetimeMinutes * 60 * 1000;
+    this.expiresAt = Date.now() + lifetime;
+
+    this.unsubscribe.push(
+      this.room.on('participantJoined', participant => this.admit(participant)),
+      this.room.on('participantLeft', (participant) => {
+        if (this.joiners.get(participant.id)?.state !== 'served') this.setJoinerState(participant.id, 'left');
+      }),
+      this.room.on('file', (transfer) => {
+        if (transfer.direction !== 'sending' || transfer.batchId !== this.batchId) return;
+        this.files.set(transfer.id, transfer);
+        this.emitUpdate();
+      }),
+    );
+
+    await this.room.host(pin, {
+      maxPeers: this.options.maxJoiners,
+      maxJoiners: this.options.maxJoiners,
+      expiresAt: new Date(this.expiresAt),
+    });
+    this.pin = pin;
+    this.open = true;
+    this.expiryTimer = setTimeout(() => this.close(), lifetime);
+    this.emitUpdate();
+  }
+
+  // Stop admitting joiners; downloads already running carry on
+  close() {
+    clearTimeout(this.expiryTimer);
+    if (!this.open) return;
+    this.open = false;
+    this.room.stopHosting();
+    this.emitUpdate();
+  }
+
+  // Close the room and every connection in it
+  stop() {
+    this.close();
+    this.unsubscribe.forEach(unsubscribe => unsubscribe());
+    this.unsubscribe = [];
+    this.queue = [];
+    this.room.disconnect();
+  }
+
+  private admit(participant: Participant) {
+    this.joiners.set(participant.id, {
+      participantId: participant.id,
+      name: participant.name,
+      joinedAt: Date.now(),
+      state: 'queued',
+    });
+    this.queue.push(participant.id);
+
+    if (this.joiners.size >= this.options.maxJoiners) this.close();
+    this.emitUpdate();
+    this.pump();
+  }
+
+  private pump() {
+    const limit = this.options.mode === 'sequential' ? 1 : Infinity;
+    while (this.serving < limit && this.queue.length > 0) {
+      const id = this.queue.shift();
+      if (this.joiners.get(id)?.state === 'queued') this.serve(id);
+    }
+  }
+
+  private async serve(participantId: string) {
+    const manager = this.room.getManager(participantId);
+    if (!manager) return;
+
+    this.serving++;
+    this.setJoinerState(participantId, 'serving');
+    try {
+      await manager.calibrateConnection().catch(error => console.warn('Calibration failed:', error));
+
+      // Withdrawn on timeout, so a late accept doesn't wait for files
+      // that never come; offerFiles then rejects
+      const timer = setTimeout(() => manager.withdrawOffer(this.batchId), OFFER_TIMEOUT_MS);
+      const accepted = await manager.offerFiles(this.entries, this.batchId).finally(() => clearTimeout(timer));
+
+      for (const { id, file, path } of this.entries) {
+        if (!accepted.includes(id)) continue;
+        await manager.sendFile(file, id, { batchId: this.batchId, path });
+      }
+    } catch (error) {
+      console.warn(`Stopped serving ${participantId}:`, error);
+    } finally {
+      this.serving--;
+      if (this.joiners.get(participantId)?.state === 'serving') {
+        this.setJoinerState(participantId, 'served');
+      }
+      this.pump();
+    }
+  }
+
+  private setJoinerState(participantId: string, state: SeedJoiner['state']) {
+    const joiner = this.joiners.get(participantId);
+    if (!joiner) return;
+    joiner.state = state;
+    this.emitUpdate();
+  }
+
+  private emitUpdate() {
+    this.events.emit('update', this.getState());
+  }
+}
@@ -0,0 +1,97 @@
+// Signaling: how two devices swap the offers, answers and public keys that
+// set up a WebRTC connection, through a room identified by a 6-digit PIN.
+// One-to-one rooms hold the host's offer for the joiner to answer. Group
+// rooms hold none; every joiner posts an offer and the host answers each.
+
+export interface SessionDescription {
+  // Base64 SDP as produced by createOffer/handleOffer
+  sdp: string;
+  // Empty when encryption is disabled
+  publicKey: string;
+}
+
+export interface CreateRoomOptions {
+  // The host's offer; leave out for a group room
+  offer?: SessionDescription;
+  // Devices connected at the same time, for group rooms
+  maxPeers?: number;
+  // When the PIN stops working; defaults to DEFAULT_ROOM_TTL_MS from now
+  expiresAt?: Date;
+}
+
+// Which side of a connection a trickled ICE candidate comes from
+export type IceRole = 'offerer' | 'answerer';
+
+// RTCIceCandidateInit, spelled out so servers can use it without DOM types
+export interface TrickleCandidate {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+export interface FoundRoom {
+  // The host's offer, or null for a group room
+  offer: SessionDescription | null;
+}
+
+export interface SignalingTransport {
+  createRoom(pin: string, options: CreateRoomOptions): Promise<void>;
+  // Null when no room is open under the PIN
+  joinRoom(pin: string): Promise<FoundRoom | null>;
+  // Group rooms: post our offer; resolves with the id the host answers under
+  publishOffer(pin: string, offer: SessionDescription): Promise<string>;
+  // Host of a group room: called for every offer a joiner posts
+  onOffer(pin: string, handler: (peerId: string, offer: SessionDescription) => void): () => void;
+  // Answer the room's offer, or the offer posted as `peerId`
+  publishAnswer(pin: string, answer: SessionDescription, peerId?: string): Promise<void>;
+  // Called once with the answer to our offer, even if it was published
+  // before subscribing. Handlers are never called synchronously.
+  onAnswer(pin: string, handler: (answer: SessionDescription) => void, peerId?: string): () => void;
+  // Trickle ICE: send a candidate we found as `role`, or null once we have
+  // found them all. Group rooms keep candidates apart by the joiner's peerId.
+  publishCandidate(pin: string, role: IceRole, candidate: TrickleCandidate | null, peerId?: string): Promise<void>;
+  // Called for every candidate `role` publishes, including those published
+  // before subscribing
+  onCandidate(pin: string, role: IceRole, handler: (candidate: TrickleCandidate | null) => void, peerId?: string): () => void;
+  // ICE restarts once connected: the offerer's restart offer, or the
+  // answerer's reply, as base64 SDP. Only reaches devices listening now.
+  publishRestart(pin: string, role: IceRole, description: string, peerId?: string): Promise<void>;
+  onRestart(pin: string, role: IceRole, handler: (description: string) => void, peerId?: string): () => void;
+  // Retire a room we host; the PIN stops working
+  close(pin: string): Promise<void>;
+}
+
+export const DEFAULT_ROOM_TTL_MS = 10 * 60 * 1000;
+
+// Posted by the host of a group room in place of an answer when it can't
+// take the joiner, so the joiner fails right away instead of timing out
+export const ROOM_FULL_ANSWER: SessionDescription = { sdp: 'room-full', publicKey: '' };
+
+export class RoomFullError extends Error {
+  constructor() {
+    super('The room is full');
+    this.name = 'RoomFullError';
+  }
+}
+
+// Wait for the answer to our offer, giving up after `timeoutMs`
+export function waitForAnswer(
+  transport: SignalingTransport,
+  pin: string,
+  timeoutMs: number,
+  peerId?: string
+): Promise<SessionDescription> {
+  return new Promise<SessionDescription>((resolve, reject) => {
+    const unsubscribe = transport.onAnswer(pin, (answer) => {
+      clearTimeout(timer);
+      unsubscribe();
+      if (answer.sdp === ROOM_FULL_ANSWER.sdp) reject(new RoomFullError());
+      else resolve(answer);
+    }, peerId);
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error('The host did not answer'));
+    }, timeoutMs);
+  });
+}
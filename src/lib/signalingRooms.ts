@@ -0,0 +1,392 @@
+// Rooms kept by whoever relays signaling without a database: the tab that
+// hosts a room for BroadcastSignaling, or a signaling server for
+// WebSocketSignaling. Both speak the relay protocol below; clients are
+// identified by an opaque id and messages for them are pushed out.
+//
+// Kept free of browser APIs so a server can use it as is.
+
+import { z } from 'zod';
+import {
+  DEFAULT_ROOM_TTL_MS,
+  type FoundRoom,
+  type IceRole,
+  type SessionDescription,
+  type TrickleCandidate,
+} from './signaling';
+
+// ============= RELAY PROTOCOL =============
+
+export type RelayRequest =
+  | { type: 'create'; pin: string; offer?: SessionDescription; expiresAt?: number }
+  | { type: 'join'; pin: string }
+  | { type: 'offer'; pin: string; offer: SessionDescription }
+  | { type: 'answer'; pin: string; answer: SessionDescription; peerId?: string }
+  | { type: 'close'; pin: string }
+  | { type: 'candidate'; pin: string; role: IceRole; candidate: TrickleCandidate | null; peerId?: string }
+  // Replays the candidates `role` has published so far and pushes the rest
+  | { type: 'watch-candidates'; pin: string; role: IceRole; peerId?: string }
+  | { type: 'restart'; pin: string; role: IceRole; description: string; peerId?: string }
+  // Restarts are only passed to those watching at the time
+  | { type: 'watch-restarts'; pin: string; role: IceRole; peerId?: string };
+
+export type RelayClientMessage = RelayRequest & { requestId: string };
+
+export type RelayResult =
+  | { ok: true; room?: FoundRoom | null; peerId?: string; candidates?: Array<TrickleCandidate | null> }
+  | { ok: false; error: string };
+
+// Sent to a room's host when a joiner posts an offer, to whoever made an
+// offer when it is answered, and to whoever watches a side's candidates or
+// restarts
+export type RelayPush =
+  | { type: 'offered'; pin: string; peerId: string; offer: SessionDescription }
+  | { type: 'answered'; pin: string; peerId?: string; answer: SessionDescription }
+  | { type: 'candidate'; pin: string; role: IceRole; peerId?: string; candidate: TrickleCandidate | null }
+  | { type: 'restart'; pin: string; role: IceRole; peerId?: string; description: string };
+
+export type RelayServerMessage = RelayPush | ({ type: 'result'; requestId: string } & RelayResult);
+
+// Longest a room may be asked to stay open
+const MAX_ROOM_TTL_MS = 24 * 60 * 60 * 1000;
+
+// SDP with every ICE candidate runs to a few KB; anything far larger is junk
+const MAX_DESCRIPTION_LENGTH = 32 * 1024;
+
+const pinSchema = z.string().regex(/^\d{6}$/);
+const descriptionSchema = z.object({
+  sdp: z.string().min(1).max(MAX_DESCRIPTION_LENGTH),
+  publicKey: z.string().max(MAX_DESCRIPTION_LENGTH),
+});
+const requestIdSchema = z.string().min(1).max(64);
+const roleSchema = z.enum(['offerer', 'answerer']);
+const candidateSchema = z.object({
+  candidate: z.string().max(1024),
+  sdpMid: z.string().max(64).nullable().optional(),
+  sdpMLineIndex: z.number().int().nullable().optional(),
+  usernameFragment: z.string().max(256).nullable().optional(),
+});
+
+const relayClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('create'),
+    requestId: requestIdSchema,
+    pin: pinSchema,
+    offer: descriptionSchema.optional(),
+    expiresAt: z.number().optional(),
+  }),
+  z.object({ type: z.literal('join'), requestId: requestIdSchema, pin: pinSchema }),
+  z.object({ type: z.literal('offer'), requestId: requestIdSchema, pin: pinSchema, offer: descriptionSchema }),
+  z.object({
+    type: z.literal('answer'),
+    requestId: requestIdSchema,
+    pin: pinSchema,
+    answer: descriptionSchema,
+    peerId: z.string().max(64).optional(),
+  }),
+  z.object({ type: z.literal('close'), requestId: requestIdSchema, pin: pinSchema }),
+  z.object({
+    type: z.literal('candidate'),
+    requestId: requestIdSchema,
+    pin: pinSchema,
+    role: roleSchema,
+    candidate: candidateSchema.nullable(),
+    peerId: z.string().max(64).optional(),
+  }),
+  z.object({
+    type: z.literal('watch-candidates'),
+    requestId: requestIdSchema,
+    pin: pinSchema,
+    role: roleSchema,
+    peerId: z.string().max(64).optional(),
+  }),
+  z.object({
+    type: z.literal('restart'),
+    requestId: requestIdSchema,
+    pin: pinSchema,
+    role: roleSchema,
+    description: z.string().min(1).max(MAX_DESCRIPTION_LENGTH),
+    peerId: z.string().max(64).optional(),
+  }),
+  z.object({
+    type: z.literal('watch-restarts'),
+    requestId: requestIdSchema,
+    pin: pinSchema,
+    role: roleSchema,
+    peerId: z.string().max(64).optional(),
+  }),
+]);
+
+// Parse a request from an untrusted client; null if it isn't one
+export function parseRelayClientMessage(data: string): RelayClientMessage | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  const result = relayClientMessageSchema.safeParse(json);
+  return result.success ? (result.data as RelayClientMessage) : null;
+}
+
+// ============= ROOMS =============
+
+export class RelayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RelayError';
+  }
+}
+
+interface RelayRoom {
+  owner: string;
+  offer: SessionDescription | null;
+  expiresAt: number;
+  // One-to-one rooms take a single answer, from this client
+  answerer: string | null;
+  // Group rooms: joiner offers by peer id, with who posted them
+  peers: Map<string, { client: string; answered: boolean }>;
+  // Trickled candidates by side (see candidateKey), with who watches them
+  candidates: Map<string, { list: Array<TrickleCandidate | null>; watchers: Set<string> }>;
+  // Who watches each side's restarts, keyed the same way
+  restartWatchers: Map<string, Set<string>>;
+}
+
+// Far more than any browser gathers for one connection
+const MAX_CANDIDATES = 64;
+
+// Per client, so one connection can't fill the server's memory
+const MAX_ROOMS_PER_CLIENT = 8;
+const MAX_WATCHES_PER_CLIENT = 64;
+
+function otherRole(role: IceRole): IceRole {
+  return role === 'offerer' ? 'answerer' : 'offerer';
+}
+
+function candidateKey(role: IceRole, peerId?: string): string {
+  return peerId ? `${role}:${peerId}` : role;
+}
+
+export class RoomRegistry {
+  private rooms: Map<string, RelayRoom> = new Map();
+  // Candidate and restart streams each client watches, for the limit
+  private watchCounts: Map<string, number> = new Map();
+
+  // Apply a client's request; anything the request produces for other
+  // clients goes out through `push`
+  handle(client: string, request: RelayRequest, push: (client: string, message: RelayPush) => void): RelayResult {
+    try {
+      switch (request.type) {
+        case 'create':
+          this.create(client, request);
+          return { ok: true };
+        case 'join':
+          return { ok: true, room: this.join(request.pin) };
+        case 'offer': {
+          const { room, peerId } = this.postOffer(client, request.pin);
+          push(room.owner, { type: 'offered', pin: request.pin, peerId, offer: request.offer });
+          return { ok: true, peerId };
+        }
+        case 'answer': {
+          const recipient = this.answer(client, request.pin, request.peerId);
+          push(recipient, { type: 'answered', pin: request.pin, peerId: request.peerId, answer: request.answer });
+          return { ok: true };
+        }
+        case 'close':
+          this.close(client, request.pin);
+          return { ok: true };
+        case 'candidate': {
+          const watchers = this.addCandidate(client, request.pin, request.role, request.candidate, request.peerId);
+          watchers.forEach(watcher => push(watcher, {
+            type: 'candidate',
+            pin: request.pin,
+            role: request.role,
+            peerId: request.peerId,
+            candidate: request.candidate,
+          }));
+          return { ok: true };
+        }
+        case 'watch-candidates':
+          return { ok: true, candidates: this.watchCandidates(client, request.pin, request.role, request.peerId) };
+        case 'restart':
+          this.assertSide(client, this.findPeer(request.pin, request.peerId), request.role, request.peerId);
+          this.restartWatchers(request.pin, request.role, request.peerId).forEach(watcher => push(watcher, {
+            type: 'restart',
+            pin: request.pin,
+            role: request.role,
+            peerId: request.peerId,
+            description: request.description,
+          }));
+          return { ok: true };
+        case 'watch-restarts':
+          this.assertSide(client, this.findPeer(request.pin, request.peerId), otherRole(request.role), request.peerId);
+          this.watch(client, this.restartWatchers(request.pin, request.role, request.peerId));
+          return { ok: true };
+      }
+    } catch (error) {
+      if (error instanceof RelayError) return { ok: false, error: error.message };
+      throw error;
+    }
+  }
+
+  has(pin: string): boolean {
+    return !!this.find(pin);
+  }
+
+  // Drop expired rooms; call now and then
+  sweep(now: number = Date.now()) {
+    this.rooms.forEach((room, pin) => {
+      if (room.expiresAt <= now) this.remove(pin);
+    });
+  }
+
+  // Drop every room a client hosts, e.g. when it disconnects
+  dropClient(client: string) {
+    this.rooms.forEach((room, pin) => {
+      if (room.owner === client) this.remove(pin);
+    });
+  }
+
+  private find(pin: string): RelayRoom | undefined {
+    const room = this.rooms.get(pin);
+    if (room && room.expiresAt <= Date.now()) {
+      this.remove(pin);
+      return undefined;
+    }
+    return room;
+  }
+
+  private create(client: string, { pin, offer, expiresAt }: Extract<RelayRequest, { type: 'create' }>) {
+    if (this.find(pin)) throw new RelayError('PIN already in use');
+    const owned = [...this.rooms.values()].filter(room => room.owner === client).length;
+    if (owned >= MAX_ROOMS_PER_CLIENT) throw new RelayError('Too many rooms');
+    this.rooms.set(pin, {
+      owner: client,
+      offer: offer ?? null,
+      expiresAt: Math.min(expiresAt ?? Date.now() + DEFAULT_ROOM_TTL_MS, Date.now() + MAX_ROOM_TTL_MS),
+      answerer: null,
+      peers: new Map(),
+      candidates: new Map(),
+      restartWatchers: new Map(),
+    });
+  }
+
+  private join(pin: string): FoundRoom | null {
+    const room = this.find(pin);
+    return room ? { offer: room.offer } : null;
+  }
+
+  private postOffer(client: string, pin: string): { room: RelayRoom; peerId: string } {
+    const room = this.find(pin);
+    if (!room) throw new RelayError('Room not found');
+    if (room.offer) throw new RelayError('Not a group room');
+
+    const peerId = crypto.randomUUID();
+    room.peers.set(peerId, { client, answered: false });
+    return { room, peerId };
+  }
+
+  // Returns the client waiting for the answer
+  private answer(client: string, pin: string, peerId?: string): string {
+    const room = this.find(pin);
+    if (!room) throw new RelayError('Room not found');
+
+    if (peerId) {
+      const peer = room.peers.get(peerId);
+      if (!peer) throw new RelayError('Unknown peer');
+      if (room.owner !== client) throw new RelayError('Only the host answers joiners');
+      if (peer.answered) throw new RelayError('Already answered');
+      peer.answered = true;
+      return peer.client;
+    }
+
+    // The first answer wins; anyone else is too late
+    if (!room.offer) throw new RelayError('Group rooms are joined with an offer');
+    if (room.answerer) throw new RelayError('Room already joined');
+    room.answerer = client;
+    return room.owner;
+  }
+
+  // Only the two ends of a connection speak for it or hear from it: in
+  // one-to-one rooms the host offers and whoever answered answers, in group
+  // rooms the joiner offers and the host answers
+  private assertSide(client: string, room: RelayRoom, role: IceRole, peerId?: string) {
+    const side = peerId
+      ? (role === 'offerer' ? room.peers.get(peerId)?.client : room.owner)
+      : (role === 'offerer' ? room.owner : room.answerer);
+    if (client !== side) throw new RelayError(`Not the ${role} of this connection`);
+  }
+
+  private findPeer(pin: string, peerId?: string): RelayRoom {
+    const room = this.find(pin);
+    if (!room) throw new RelayError('Room not found');
+    if (peerId && !room.peers.has(peerId)) throw new RelayError('Unknown peer');
+    return room;
+  }
+
+  private candidateStream(pin: string, role: IceRole, peerId?: string) {
+    const room = this.findPeer(pin, peerId);
+    const key = candidateKey(role, peerId);
+    let stream = room.candidates.get(key);
+    if (!stream) {
+      stream = { list: [], watchers: new Set() };
+      room.candidates.set(key, stream);
+    }
+    return stream;
+  }
+
+  // Returns the clients to pass the candidate on to
+  private addCandidate(client: string, pin: string, role: IceRole, candidate: TrickleCandidate | null, peerId?: string): Set<string> {
+    this.assertSide(client, this.findPeer(pin, peerId), role, peerId);
+    const stream = this.candidateStream(pin, role, peerId);
+    if (stream.list.length >= MAX_CANDIDATES) throw new RelayError('Too many candidates');
+    stream.list.push(candidate);
+    return stream.watchers;
+  }
+
+  // Only the other side of a connection gets its candidates, which carry
+  // IP addresses
+  private watchCandidates(client: string, pin: string, role: IceRole, peerId?: string): Array<TrickleCandidate | null> {
+    this.assertSide(client, this.findPeer(pin, peerId), otherRole(role), peerId);
+    const stream = this.candidateStream(pin, role, peerId);
+    this.watch(client, stream.watchers);
+    return [...stream.list];
+  }
+
+  private watch(client: string, watchers: Set<string>) {
+    if (watchers.has(client)) return;
+    const count = this.watchCounts.get(client) ?? 0;
+    if (count >= MAX_WATCHES_PER_CLIENT) throw new RelayError('Too many subscriptions');
+    watchers.add(client);
+    this.watchCounts.set(client, count + 1);
+  }
+
+  private remove(pin: string) {
+    const room = this.rooms.get(pin);
+    if (!room) return;
+    this.rooms.delete(pin);
+    const unwatch = (client: string) => {
+      const count = (this.watchCounts.get(client) ?? 1) - 1;
+      if (count > 0) this.watchCounts.set(client, count);
+      else this.watchCounts.delete(client);
+    };
+    room.candidates.forEach(stream => stream.watchers.forEach(unwatch));
+    room.restartWatchers.forEach(watchers => watchers.forEach(unwatch));
+  }
+
+  private restartWatchers(pin: string, role: IceRole, peerId?: string): Set<string> {
+    const room = this.findPeer(pin, peerId);
+    const key = candidateKey(role, peerId);
+    let watchers = room.restartWatchers.get(key);
+    if (!watchers) {
+      watchers = new Set();
+      room.restartWatchers.set(key, watchers);
+    }
+    return watchers;
+  }
+
+  private close(client: string, pin: string) {
+    const room = this.rooms.get(pin);
+    if (room && room.owner !== client) throw new RelayError('Only the host can close the room');
+    this.remove(pin);
+  }
+}
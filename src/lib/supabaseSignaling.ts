@@ -0,0 +1,202 @@
+// Signaling through the hosted Supabase project: one-to-one rooms are rows
+// in `rooms`, joiner offers for group rooms are rows in `room_peers`, and
+// answers arrive as realtime updates to those rows. Trickled ICE candidates
+// are rows in `room_candidates`. ICE restarts go over Realtime broadcast.
+
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  CreateRoomOptions,
+  FoundRoom,
+  IceRole,
+  SessionDescription,
+  SignalingTransport,
+  TrickleCandidate,
+} from './signaling';
+
+interface AnswerRow {
+  answer: string | null;
+  peer_public_key: string | null;
+}
+
+type CandidateRow = Database['public']['Tables']['room_candidates']['Row'];
+
+// Broadcast topic for what `role` sends about a connection
+function restartTopic(pin: string, role: IceRole, peerId?: string): string {
+  return `room-restart-${pin}-${peerId ?? 'room'}-${role}`;
+}
+
+export class SupabaseSignaling implements SignalingTransport {
+  constructor(private client: SupabaseClient<Database> = supabase) {}
+
+  async createRoom(pin: string, { offer, maxPeers, expiresAt }: CreateRoomOptions) {
+    const { error } = await this.client.from('rooms').insert({
+      pin,
+      offer: offer?.sdp ?? null,
+      public_key: offer?.publicKey ?? null,
+      max_peers: maxPeers,
+      expires_at: expiresAt?.toISOString(),
+    });
+    if (error) throw error;
+  }
+
+  async joinRoom(pin: string): Promise<FoundRoom | null> {
+    const { data: found, error } = await this.client
+      .from('rooms')
+      .select('*')
+      .eq('pin', pin)
+      .maybeSingle();
+    if (error) throw error;
+    if (!found) return null;
+
+    // Group rooms have no offer of their own
+    return { offer: found.offer ? { sdp: found.offer, publicKey: found.public_key ?? '' } : null };
+  }
+
+  async publishOffer(pin: string, offer: SessionDescription): Promise<string> {
+    const { data: row, error } = await this.client
+      .from('room_peers')
+      .insert({ pin, offer: offer.sdp, public_key: offer.publicKey })
+      .select()
+      .single();
+    if (error) throw error;
+    return row.id;
+  }
+
+  onOffer(pin: string, handler: (peerId: string, offer: SessionDescription) => void): () => void {
+    const channel = this.client
+      .channel(`room-peers-${pin}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'room_peers', filter: `pin=eq.${pin}` },
+        (payload) => {
+          const row = payload.new as Database['public']['Tables']['room_peers']['Row'];
+          handler(row.id, { sdp: row.offer, publicKey: row.public_key ?? '' });
+        }
+      )
+      .subscribe();
+    return () => {
+      this.client.removeChannel(channel);
+    };
+  }
+
+  async publishAnswer(pin: string, answer: SessionDescription, peerId?: string) {
+    const update = { answer: answer.sdp, peer_public_key: answer.publicKey };
+    const { error } = peerId
+      ? await this.client.from('room_peers').update(update).eq('id', peerId)
+      : await this.client.from('rooms').update(update).eq('pin', pin);
+    if (error) throw error;
+  }
+
+  onAnswer(pin: string, handler: (answer: SessionDescription) => void, peerId?: string): () => void {
+    const table = peerId ? 'room_peers' : 'rooms';
+    const filter = peerId ? `id=eq.${peerId}` : `pin=eq.${pin}`;
+    let answered = false;
+    const deliver = (row: AnswerRow | null) => {
+      if (answered || !row?.answer) return;
+      answered = true;
+      handler({ sdp: row.answer, publicKey: row.peer_public_key ?? '' });
+    };
+
+    const channel: RealtimeChannel = this.client
+      .channel(peerId ? `room-peer-${peerId}` : `room-updates-${pin}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table, filter },
+        (payload) => deliver(payload.new as AnswerRow)
+      )
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED') return;
+        // The answer may have landed before the subscription was live
+        const query = peerId
+          ? this.client.from('room_peers').select('answer, peer_public_key').eq('id', peerId)
+          : this.client.from('rooms').select('answer, peer_public_key').eq('pin', pin);
+        const { data } = await query.maybeSingle();
+        deliver(data);
+      });
+
+    return () => {
+      answered = true;
+      this.client.removeChannel(channel);
+    };
+  }
+
+  async publishCandidate(pin: string, role: IceRole, candidate: TrickleCandidate | null, peerId?: string) {
+    const { error } = await this.client.from('room_candidates').insert({
+      pin,
+      role,
+      peer_id: peerId ?? null,
+      candidate: candidate as unknown as Json,
+    });
+    if (error) throw error;
+  }
+
+  onCandidate(
+    pin: string,
+    role: IceRole,
+    handler: (candidate: TrickleCandidate | null) => void,
+    peerId?: string
+  ): () => void {
+    // Rows can turn up both live and in the catch-up query
+    const seen = new Set<number>();
+    let stopped = false;
+    const deliver = (row: CandidateRow) => {
+      if (stopped || seen.has(row.id)) return;
+      if (row.role !== role || row.peer_id !== (peerId ?? null)) return;
+      seen.add(row.id);
+      handler(row.candidate as unknown as TrickleCandidate | null);
+    };
+
+    const channel: RealtimeChannel = this.client
+      .channel(`room-candidates-${pin}-${role}-${peerId ?? 'room'}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'room_candidates', filter: `pin=eq.${pin}` },
+        (payload) => deliver(payload.new as CandidateRow)
+      )
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED') return;
+        const query = this.client
+          .from('room_candidates')
+          .select('*')
+          .eq('pin', pin)
+          .eq('role', role);
+        const { data } = await (peerId ? query.eq('peer_id', peerId) : query.is('peer_id', null)).order('id');
+        data?.forEach(deliver);
+      });
+
+    return () => {
+      stopped = true;
+      this.client.removeChannel(channel);
+    };
+  }
+
+  async publishRestart(pin: string, role: IceRole, description: string, peerId?: string) {
+    const channel = this.client.channel(restartTopic(pin, role, peerId));
+    try {
+      const result = await channel.httpSend('restart', { description });
+      if (result.success === false) throw new Error(result.error);
+    } finally {
+      this.client.removeChannel(channel);
+    }
+  }
+
+  onRestart(pin: string, role: IceRole, handler: (description: string) => void, peerId?: string): () => void {
+    const channel = this.client
+      .channel(restartTopic(pin, role, peerId))
+      .on('broadcast', { event: 'restart' }, ({ payload }) => {
+        if (typeof payload?.description === 'string') handler(payload.description);
+      })
+      .subscribe();
+    return () => {
+      this.client.removeChannel(channel);
+    };
+  }
+
+  // Deleting the room also removes its room_peers and room_candidates rows
+  async close(pin: string) {
+    const { error } = await this.client.from('rooms').delete().eq('pin', pin);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,228 @@
+// Swarm downloads: a file is identified by the SHA-256 of its content, so
+// any device in the room that holds it (fully or in part) can serve pieces
+// of it. A receiver asks every peer which pieces it has, fetches the rarest
+// ones first from whoever has them, and verifies each piece on arrival.
+
+import { ByteRangeSet, type ByteRange } from './byteRanges';
+import { hashBlob, toHex } from './sha256';
+
+// Pieces are at least this big, and few enough that the list of piece
+// hashes fits comfortably in one control message
+const MIN_PIECE_SIZE = 1024 * 1024;
+const MAX_PIECES = 512;
+
+// Derived from the size alone, so every holder cuts the same pieces
+export function pieceSizeFor(size: number): number {
+  let pieceSize = MIN_PIECE_SIZE;
+  while (Math.ceil(size / pieceSize) > MAX_PIECES) pieceSize *= 2;
+  return pieceSize;
+}
+
+export function pieceCount(size: number): number {
+  return Math.ceil(size / pieceSizeFor(size));
+}
+
+// Byte range [start, end) of a piece
+export function pieceRange(size: number, piece: number): ByteRange {
+  const pieceSize = pieceSizeFor(size);
+  return [piece * pieceSize, Math.min((piece + 1) * pieceSize, size)];
+}
+
+export async function hashPiece(bytes: Uint8Array): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)));
+}
+
+// Content id of a file, computed once per File object
+const contentIds = new WeakMap<Blob, Promise<string>>();
+
+export function contentIdOf(blob: Blob): Promise<string> {
+  let contentId = contentIds.get(blob);
+  if (!contentId) {
+    contentId = hashBlob(blob);
+    contentIds.set(blob, contentId);
+    // A failed read may work next time
+    contentId.catch(() => contentIds.delete(blob));
+  }
+  return contentId;
+}
+
+// ============= SERVING =============
+
+// Something this device can serve pieces of
+export interface SwarmSource {
+  size: number;
+  // Piece index ranges available right now
+  have(): ByteRange[];
+  read(piece: number): Promise<Uint8Array>;
+  // Hashes of every piece; only a source holding the whole file has them
+  pieceHashes(): Promise<string[]> | null;
+}
+
+class BlobSource implements SwarmSource {
+  private hashes: Promise<string[]> | null = null;
+
+  constructor(private blob: Blob) {}
+
+  get size(): number {
+    return this.blob.size;
+  }
+
+  have(): ByteRange[] {
+    const count = pieceCount(this.blob.size);
+    return count > 0 ? [[0, count]] : [];
+  }
+
+  async read(piece: number): Promise<Uint8Array> {
+    const [start, end] = pieceRange(this.blob.size, piece);
+    return new Uint8Array(await this.blob.slice(start, end).arrayBuffer());
+  }
+
+  pieceHashes(): Promise<string[]> {
+    if (!this.hashes) {
+      this.hashes = (async () => {
+        const hashes: string[] = [];
+        for (let piece = 0; piece < pieceCount(this.blob.size); piece++) {
+          hashes.push(await hashPiece(await this.read(piece)));
+        }
+        return hashes;
+      })();
+    }
+    return this.hashes;
+  }
+}
+
+// Files this device can serve to the swarm of one room, by content id. Fed
+// with files we offer and files we receive there, so every device that
+// completed a file becomes a source for it, but only to the devices the
+// file was offered to in the same room.
+export class SwarmLibrary {
+  private sources: Map<string, SwarmSource> = new Map();
+  private audience: Map<string, Set<string>> = new Map();
+
+  // Register a complete file; replaces any partial source for it
+  add(contentId: string, blob: Blob) {
+    if (this.sources.get(contentId) instanceof BlobSource) return;
+    this.sources.set(contentId, new BlobSource(blob));
+  }
+
+  // Register a file still being downloaded
+  addPartial(contentId: string, source: SwarmSource) {
+    if (!this.sources.has(contentId)) this.sources.set(contentId, source);
+  }
+
+  remove(contentId: string, source?: SwarmSource) {
+    if (!source || this.sources.get(contentId) === source) this.sources.delete(contentId);
+  }
+
+  // Let these devices fetch the content from us
+  allow(contentId: string, deviceIds: string[]) {
+    let audience = this.audience.get(contentId);
+    if (!audience) {
+      audience = new Set();
+      this.audience.set(contentId, audience);
+    }
+    deviceIds.forEach(deviceId => audience.add(deviceId));
+  }
+
+  // The source of a content id, if we have one and the device was offered it
+  get(contentId: string, deviceId: string | null): SwarmSource | undefined {
+    if (!deviceId || !this.audience.get(contentId)?.has(deviceId)) return undefined;
+    return this.sources.get(contentId);
+  }
+
+  // Forget everything, e.g. when leaving the room
+  clear() {
+    this.sources.clear();
+    this.audience.clear();
+  }
+}
+
+// ============= SCHEDULING =============
+
+// Decides which piece to fetch from which peer: rarest first among the
+// pieces a peer has that are neither done nor already being fetched
+export class PieceScheduler<P> {
+  private have: Map<P, ByteRangeSet> = new Map();
+  private done = new ByteRangeSet();
+  private inFlight: Map<number, P> = new Map();
+
+  constructor(readonly count: number) {}
+
+  setHave(peer: P, pieces: ByteRange[]) {
+    this.have.set(peer, new ByteRangeSet(pieces));
+  }
+
+  // Forget a peer that left or served bad data; its pieces go back in the pool
+  removePeer(peer: P) {
+    this.have.delete(peer);
+    this.inFlight.forEach((owner, piece) => {
+      if (owner === peer) this.inFlight.delete(piece);
+    });
+  }
+
+  next(peer: P): number | null {
+    const peerHave = this.have.get(peer);
+    if (!peerHave) return null;
+
+    let best: number | null = null;
+    let bestAvailability = Infinity;
+    let ties = 0;
+    for (const [start, end] of peerHave.toJSON()) {
+      for (let piece = start; piece < Math.min(end, this.count); piece++) {
+        if (this.isDone(piece) || this.inFlight.has(piece)) continue;
+        const availability = this.availability(piece);
+        if (availability < bestAvailability) {
+          best = piece;
+          bestAvailability = availability;
+          ties = 1;
+        } else if (availability === bestAvailability && Math.random() < 1 / ++ties) {
+          // Pick uniformly among equally rare pieces so peers don't all
+          // start on the same one
+          best = piece;
+        }
+      }
+    }
+
+    if (best !== null) this.inFlight.set(best, peer);
+    return best;
+  }
+
+  complete(piece: number) {
+    this.inFlight.delete(piece);
+    this.done.add(piece, piece + 1);
+  }
+
+  // The fetch from this peer failed; the piece can be scheduled again
+  release(piece: number, peer: P) {
+    if (this.inFlight.get(piece) === peer) this.inFlight.delete(piece);
+  }
+
+  inFlightFrom(peer: P): number {
+    let count = 0;
+    this.inFlight.forEach(owner => {
+      if (owner === peer) count++;
+    });
+    return count;
+  }
+
+  // Pieces verified so far, as index ranges
+  completed(): ByteRange[] {
+    return this.done.toJSON();
+  }
+
+  isDone(piece: number): boolean {
+    return this.done.contains(piece, piece + 1);
+  }
+
+  isComplete(): boolean {
+    return this.done.covers(this.count);
+  }
+
+  private availability(piece: number): number {
+    let count = 0;
+    this.have.forEach((pieces) => {
+      if (pieces.contains(piece, piece + 1)) count++;
+    });
+    return count;
+  }
+}
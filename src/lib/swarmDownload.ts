@@ -0,0 +1,308 @@
+// One file pulled from the swarm: pieces are requested from every connected
+// device that has them, rarest first, and each is checked against the piece
+// hashes the sender published before it is written.
+
+import type { FileTransfer, WebRTCManager } from './webrtc';
+import type { SwarmHaveMessage } from './messages';
+import { ByteRangeSet } from './byteRanges';
+import { checkpointInterval, createFileSink, type FileSink, type SaveDestination } from './fileSink';
+import { sanitizeRelativePath } from './folders';
+import { TypedEventEmitter } from './eventEmitter';
+import { hashBlob } from './sha256';
+import { PieceScheduler, hashPiece, pieceCount, pieceRange, type SwarmLibrary, type SwarmSource } from './swarm';
+
+export interface SwarmFile {
+  // Transfer id from the offer
+  id: string;
+  batchId: string;
+  name: string;
+  type: string;
+  size: number;
+  contentId: string;
+  path?: string;
+  destination?: SaveDestination;
+}
+
+interface SwarmDownloadEvents {
+  update: FileTransfer;
+}
+
+// Pieces requested from one peer at a time
+const REQUESTS_PER_PEER = 2;
+
+// How often every peer is asked for a fresh have-map, which also picks up
+// devices that connected since
+const HAVE_INTERVAL_MS = 3000;
+
+const MANIFEST_TIMEOUT_MS = 30000;
+
+export class SwarmDownload {
+  private events = new TypedEventEmitter<SwarmDownloadEvents>();
+  private scheduler: PieceScheduler<WebRTCManager>;
+  private pieceHashes: string[] | null = null;
+  private sink: Promise<FileSink> | null = null;
+  private status: FileTransfer['status'] = 'pending';
+  private finishing = false;
+  private receivedBytes = 0;
+  // Peers we listen to, and those caught serving pieces that don't verify
+  private peers: Map<WebRTCManager, Array<() => void>> = new Map();
+  private banned: Set<WebRTCManager> = new Set();
+  // Pieces written since the last checkpoint, and those we can serve
+  private unsaved: number[] = [];
+  private unsavedBytes = 0;
+  private servable = new ByteRangeSet();
+  private source: SwarmSource;
+  private refreshTimer: ReturnType<typeof setInterval> | undefined;
+  private manifestTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    readonly file: SwarmFile,
+    // The device that offered the file; its piece hashes are trusted
+    private origin: WebRTCManager,
+    // Connected managers that speak the swarm protocol
+    private getPeers: () => WebRTCManager[],
+    // The room's library, which serves what we have so far onwards
+    private library: SwarmLibrary,
+  ) {
+    this.scheduler = new PieceScheduler(pieceCount(file.size));
+    this.source = {
+      size: file.size,
+      have: () => this.servable.toJSON(),
+      read: async (piece) => {
+        const [start, end] = pieceRange(file.size, piece);
+        const blob = await (await this.sink).read();
+        return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+      },
+      pieceHashes: () => null,
+    };
+  }
+
+  on<K extends keyof SwarmDownloadEvents>(event: K, handler: (payload: SwarmDownloadEvents[K]) => void): () => void {
+    return this.events.on(event, handler);
+  }
+
+  start() {
+    const { id, name, type, path, destination, contentId } = this.file;
+    this.sink = createFileSink({
+      id,
+      name,
+      type,
+      destination,
+      path: path ?? sanitizeRelativePath(name),
+    });
+    this.sink.then((sink) => {
+      // Reading back from memory copies the whole file each time
+      if (sink.kind !== 'memory') this.library.addPartial(contentId, this.source);
+    }).catch(error => this.fail('Could not save the file', error));
+
+    this.setStatus('transferring');
+    this.refresh();
+    this.refreshTimer = setInterval(() => this.refresh(), HAVE_INTERVAL_MS);
+    this.origin.querySwarm(contentId, true);
+    this.manifestTimer = setTimeout(() => {
+      if (!this.pieceHashes) this.fail('The sender did not describe the file');
+    }, MANIFEST_TIMEOUT_MS);
+  }
+
+  pause() {
+    if (this.status === 'transferring') this.setStatus('paused');
+  }
+
+  resume() {
+    if (this.status !== 'paused') return;
+    this.setStatus('transferring');
+    this.fill();
+  }
+
+  cancel() {
+    if (this.isSettled() || this.finishing) return;
+    this.stop();
+    this.origin.finishPull(this.file.id, false);
+    this.sink?.then(sink => sink.abort()).catch(() => undefined);
+    this.setStatus('cancelled');
+  }
+
+  private isSettled(): boolean {
+    return ['completed', 'cancelled', 'error'].includes(this.status);
+  }
+
+  // Ask everyone for their have-map; new peers are picked up here
+  private refresh() {
+    const peers = this.getPeers().filter(peer => !this.banned.has(peer));
+    if (peers.length === 0) {
+      this.fail('Every device with this file left');
+      return;
+    }
+
+    peers.forEach((peer) => {
+      if (!this.peers.has(peer)) {
+        this.peers.set(peer, [
+          peer.on('swarmHave', message => this.handleHave(peer, message)),
+          peer.on('channelClose', () => this.dropPeer(peer)),
+        ]);
+      }
+      peer.querySwarm(this.file.contentId);
+    });
+  }
+
+  private handleHave(peer: WebRTCManager, message: SwarmHaveMessage) {
+    if (message.contentId !== this.file.contentId || this.banned.has(peer) || this.isSettled()) return;
+    if (message.size !== this.file.size && message.pieces.length > 0) {
+      console.warn('Peer announced a different size for the same content, ignoring it');
+      this.dropPeer(peer);
+      return;
+    }
+
+    if (!this.pieceHashes && peer === this.origin && message.pieceHashes) {
+      if (message.pieceHashes.length !== this.scheduler.count) {
+        this.fail('The sender described the file inconsistently');
+        return;
+      }
+      this.pieceHashes = message.pieceHashes;
+      clearTimeout(this.manifestTimer);
+    }
+
+    this.scheduler.setHave(peer, message.pieces);
+    this.fill();
+  }
+
+  private dropPeer(peer: WebRTCManager) {
+    this.peers.get(peer)?.forEach(unsubscribe => unsubscribe());
+    this.peers.delete(peer);
+    this.scheduler.removePeer(peer);
+  }
+
+  // Keep every peer busy with the rarest pieces it can give us
+  private fill() {
+    if (!this.pieceHashes || this.status !== 'transferring') return;
+
+    if (this.scheduler.isComplete()) {
+      this.finish();
+      return;
+    }
+
+    this.peers.forEach((_, peer) => {
+      if (!peer.isConnected()) return;
+      while (this.scheduler.inFlightFrom(peer) < REQUESTS_PER_PEER) {
+        const piece = this.scheduler.next(peer);
+        if (piece === null) break;
+        this.fetch(peer, piece).catch(error => this.fail('Could not save the file', error));
+      }
+    });
+  }
+
+  private async fetch(peer: WebRTCManager, piece: number) {
+    let bytes: Uint8Array;
+    try {
+      bytes = await peer.requestPiece(this.file.contentId, piece, this.file.size);
+    } catch (error) {
+      // Timed out, refused or disconnected; the piece goes back in the pool
+      console.warn(`Piece ${piece} of ${this.file.name} not received:`, error);
+      this.scheduler.release(piece, peer);
+      this.fill();
+      return;
+    }
+    // A peer we gave up on may still deliver a piece fetched again elsewhere
+    if (this.isSettled() || this.scheduler.isDone(piece)) return;
+
+    if (await hashPiece(bytes) !== this.pieceHashes[piece]) {
+      console.warn(`Piece ${piece} of ${this.file.name} failed verification, ignoring that peer`);
+      this.banned.add(peer);
+      this.dropPeer(peer);
+      this.fill();
+      return;
+    }
+
+    const [start] = pieceRange(this.file.size, piece);
+    const sink = await this.sink;
+    await sink.write(start, bytes);
+    this.scheduler.complete(piece);
+    this.receivedBytes += bytes.length;
+    this.unsaved.push(piece);
+    this.unsavedBytes += bytes.length;
+    // Only checkpointed pieces are served onwards, so checkpoint regularly
+    if (this.unsavedBytes >= checkpointInterval(this.receivedBytes - this.unsavedBytes)) await this.checkpoint(sink);
+
+    this.emitUpdate();
+    this.fill();
+  }
+
+  private async checkpoint(sink: FileSink) {
+    const pieces = this.unsaved;
+    this.unsaved = [];
+    this.unsavedBytes = 0;
+    await sink.checkpoint();
+    pieces.forEach(piece => this.servable.add(piece, piece + 1));
+  }
+
+  private async finish() {
+    if (this.finishing) return;
+    this.finishing = true;
+    this.stop();
+
+    const sink = await this.sink;
+    try {
+      // Every piece verified, but the piece hashes came from the sender;
+      // the content id settles it
+      await sink.checkpoint();
+      const actualHash = await hashBlob(await sink.read());
+      if (actualHash !== this.file.contentId) {
+        console.error(`Integrity check failed for ${this.file.name}: expected ${this.file.contentId}, got ${actualHash}`);
+        await sink.abort();
+        this.origin.finishPull(this.file.id, false);
+        this.setStatus('error');
+        return;
+      }
+
+      const blob = await sink.close();
+      this.library.add(this.file.contentId, blob);
+      this.origin.finishPull(this.file.id, true);
+      this.status = 'completed';
+      this.events.emit('update', { ...this.toTransfer(), progress: 100, data: blob, sink: sink.kind });
+    } catch (error) {
+      this.fail('Could not save the file', error);
+    }
+  }
+
+  private fail(reason: string, error?: unknown) {
+    if (this.isSettled()) return;
+    console.error(`Swarm download of ${this.file.name} failed: ${reason}`, error ?? '');
+    this.stop();
+    this.origin.finishPull(this.file.id, false);
+    this.sink?.then(sink => sink.abort()).catch(() => undefined);
+    this.setStatus('error');
+  }
+
+  // Stop asking peers for anything and stop serving the partial file
+  private stop() {
+    clearInterval(this.refreshTimer);
+    clearTimeout(this.manifestTimer);
+    [...this.peers.keys()].forEach(peer => this.dropPeer(peer));
+    this.library.remove(this.file.contentId, this.source);
+  }
+
+  private setStatus(status: FileTransfer['status']) {
+    this.status = status;
+    this.emitUpdate();
+  }
+
+  private emitUpdate() {
+    this.events.emit('update', this.toTransfer());
+  }
+
+  private toTransfer(): FileTransfer {
+    const { id, name, size, type, batchId, path } = this.file;
+    return {
+      id,
+      direction: 'receiving',
+      name,
+      size,
+      type,
+      progress: size > 0 ? Math.min(Math.round((this.receivedBytes / size) * 100), 100) : 0,
+      status: this.status,
+      resumable: this.status === 'paused',
+      batchId,
+      path,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+// IndexedDB manifests for partially received files. The bytes themselves live
+// in the OPFS staging area, or in the file or folder the user chose to save
+// into; a manifest records which ranges are safely on disk.
+
+import type { ByteRange } from './byteRanges';
+import type { SaveDestination } from './fileSink';
+
+export interface PartialReceiveManifest {
+  id: string;
+  senderId: string;
+  chunkSize: number;
+  name: string;
+  size: number;
+  type: string;
+  path?: string;
+  // File system handles survive in IndexedDB, but not their permission
+  destination?: SaveDestination;
+  ranges: ByteRange[];
+  updatedAt: number;
+}
+
+const DB_NAME = 'secureShare';
+const DB_VERSION = 1;
+const PARTIAL_STORE = 'partialReceives';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(PARTIAL_STORE, { keyPath: 'id' });
+        store.createIndex('senderId', 'senderId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const store = db.transaction(PARTIAL_STORE, mode).objectStore(PARTIAL_STORE);
+  return promisify(run(store));
+}
+
+export async function savePartialManifest(manifest: PartialReceiveManifest): Promise<void> {
+  await withStore('readwrite', store => store.put(manifest));
+}
+
+export async function deletePartialManifest(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function loadPartialManifests(): Promise<PartialReceiveManifest[]> {
+  if (typeof indexedDB === 'undefined') return [];
+  return withStore('readonly', store => store.getAll() as IDBRequest<PartialReceiveManifest[]>);
+}
@@ -7,8 +7,98 @@ import {
   decryptData,
   encryptString,
   decryptString,
+  fingerprintIdentityKey,
+  importIdentityKey,
+  signString,
+  verifyString,
   type EncryptionKeys,
 } from './crypto';
+import {
+  canWrite,
+  checkpointInterval,
+  createFileSink,
+  clearStagedFiles,
+  removeStagedFiles,
+  sinkKindFor,
+  SavePermissionError,
+  type FileSink,
+  type SaveDestination,
+  type SinkKind,
+} from './fileSink';
+import { sanitizeRelativePath, type SelectedFile } from './folders';
+import { compressChunk, decompressChunk, isCompressedFormat } from './compression';
+import { ByteRangeSet, type ByteRange } from './byteRanges';
+import { getDeviceId, getDeviceIdentity, isTrustedIdentity, trustIdentity } from './deviceIdentity';
+import {
+  FrameFlags,
+  FrameType,
+  MAX_CHUNK_SIZE,
+  ProtocolError,
+  createHello,
+  decodeFrame,
+  encodeFrame,
+  negotiateProtocol,
+  type Frame,
+  type NegotiatedProtocol,
+  type ProtocolFeature,
+} from './protocol';
+import {
+  parseWireMessage,
+  type FileMetaMessage,
+  type HelloMessage,
+  type PeerSignalMessage,
+  type TransferAnswerMessage,
+  type TransferOfferMessage,
+  type WebRTCEventName,
+  type WebRTCEvents,
+  type WireMessage,
+} from './messages';
+import { TypedEventEmitter } from './eventEmitter';
+import { Sha256, hashBlob, toHex } from './sha256';
+import { pieceRange, type SwarmLibrary } from './swarm';
+import {
+  savePartialManifest,
+  deletePartialManifest,
+  loadPartialManifests,
+} from './transferStore';
+import type { IceRole, SignalingTransport, TrickleCandidate } from './signaling';
+import { createSignaling, loadConnectionSettings } from './connectionSettings';
+import {
+  ConnectionPolicyError,
+  candidateType,
+  hasTurnServer,
+  isLocalPath,
+  keepHostCandidates,
+  resolveIceServers,
+  type ConnectionPath,
+  type ConnectionPolicy,
+} from './iceServers';
+
+// 'required' refuses peers that don't send a public key, 'preferred'
+// encrypts whenever both sides can, 'disabled' never exchanges keys
+export type EncryptionPolicy = 'required' | 'preferred' | 'disabled';
+
+export interface WebRTCManagerConfig {
+  // Fixed ICE servers; by default each connection resolves them from the
+  // connection settings (see iceServers.ts)
+  iceServers?: RTCIceServer[];
+  // Fixed connection policy; by default the connection settings' one
+  connectionPolicy?: ConnectionPolicy;
+  // How offers and answers reach the other device; by default what the
+  // connection settings pick
+  signaling?: SignalingTransport;
+  encryption?: EncryptionPolicy;
+  // Pick up partial downloads from earlier sessions and clear stale staged
+  // files on disconnect. Only one manager per page should own the staging
+  // area; extra managers for a multi-peer room turn this off.
+  restorePartials?: boolean;
+}
+
+export interface SessionOptions {
+  // Hand back the offer or answer right away and send candidates through
+  // trickle() as they turn up, instead of waiting for gathering to finish
+  trickle?: boolean;
+}
 
 // Dynamic transfer configuration
 interface TransferConfig {
@@ -30,17 +120,103 @@ const DEFAULT_CONFIG: TransferConfig = {
   isCalibrated: false,
 };
 
+// Compress a file only if a sample of it shrinks to at most this fraction,
+// and send an individual chunk compressed only if it does too
+const COMPRESSION_THRESHOLD = 0.9;
+const COMPRESSION_SAMPLE_BYTES = 64 * 1024;
+
+// How long to wait for the peer's hello before giving up on it
+const HANDSHAKE_TIMEOUT_MS = 5000;
+
+// A swarm piece that hasn't fully arrived by then is requested elsewhere
+const PIECE_TIMEOUT_MS = 60000;
+
+// A connection that stays disconnected this long gets its ICE restarted
+const DISCONNECT_GRACE_MS = 3000;
+
+// ICE restarts: attempts before giving up, the wait before the second one
+// (doubling after that), how long the data channel and then the signaling
+// room get to bring back an answer, and how long ICE then has to reconnect
+const MAX_RESTART_ATTEMPTS = 5;
+const RESTART_BACKOFF_MS = 1000;
+const RESTART_CHANNEL_TIMEOUT_MS = 3000;
+const RESTART_SIGNALING_TIMEOUT_MS = 10000;
+const RESTART_CONNECT_TIMEOUT_MS = 10000;
+
+// The answering side gives up if the offerer hasn't restarted ICE by then
+const RESTART_GIVE_UP_MS = 120000;
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 // Calibration test sizes (from small to large)
-const CALIBRATION_SIZES = [16384, 32768, 65536, 131072, 262144]; // 16KB to 256KB
+const CALIBRATION_SIZES = [16384, 32768, 65536, 131072, MAX_CHUNK_SIZE]; // 16KB to 256KB
+
+// Read a single slice of a file from disk without loading the whole file
+async function readFileChunk(file: Blob, offset: number, size: number): Promise<Uint8Array> {
+  const buffer = await file.slice(offset, offset + size).arrayBuffer();
+  return new Uint8Array(buffer);
+}
+
+// Original bytes per byte on the wire, once compression has saved anything
+function compressionRatio(rawBytes: number, wireBytes: number): number | undefined {
+  return wireBytes > 0 && rawBytes > wireBytes ? rawBytes / wireBytes : undefined;
+}
+
+// Thrown by sendFile when a transfer stops before completing. Paused and
+// disconnected transfers can be continued with resumeTransfer.
+export class TransferInterruptedError extends Error {
+  constructor(
+    public transferId: string,
+    public reason: 'disconnected' | 'paused' | 'cancelled' = 'disconnected'
+  ) {
+    super(`Transfer ${reason}`);
+    this.name = 'TransferInterruptedError';
+  }
+}
 
 export interface FileTransfer {
   id: string;
+  direction: 'sending' | 'receiving';
   name: string;
   size: number;
   type: string;
   progress: number;
-  status: 'pending' | 'transferring' | 'completed' | 'error';
+  status: 'pending' | 'transferring' | 'paused' | 'completed' | 'corrupted' | 'cancelled' | 'declined' | 'error';
   data?: Blob;
+  sink?: SinkKind;
+  // Paused by either side or by a dropped connection, and able to continue
+  resumable?: boolean;
+  // Byte ranges that failed verification and can be re-requested
+  badRanges?: ByteRange[];
+  // Offer the file was sent in, for showing progress of the whole batch
+  batchId?: string;
+  // Relative path within a folder that was sent
+  path?: string;
+  // Original size / bytes sent, for chunks moved so far this session
+  compressionRatio?: number;
+  // Progress per device when one file goes to several participants
+  recipients?: RecipientProgress[];
+}
+
+export interface RecipientProgress {
+  participantId: string;
+  name: string;
+  progress: number;
+  status: FileTransfer['status'];
+}
+
+// Files the peer wants to send, waiting for the user to accept or decline
+export interface TransferOffer {
+  id: string;
+  senderId: string;
+  // Fingerprint of the sender's identity key, when it proved holding it
+  senderIdentity?: string;
+  totalSize: number;
+  files: Array<{ id: string; name: string; size: number; type: string; path?: string; contentId?: string }>;
+  // Other devices offered the same files, which may fetch them from us
+  swarmWith?: string[];
 }
 
 export interface PeerConnection {
@@ -59,96 +235,248 @@ export interface ConnectionStats {
   rtt: number;
 }
 
-type MessageHandler = (message: any) => void;
-type FileHandler = (file: FileTransfer) => void;
-type CalibrationHandler = (stats: ConnectionStats) => void;
 
-class WebRTCManager {
+interface IncomingFile {
+  name: string;
+  size: number;
+  type: string;
+  // Device id of the sender, so a reloaded page can match it on reconnect
+  senderId: string;
+  // Chunk boundaries are fixed per file so chunk indices survive a resume
+  chunkSize: number;
+  ranges: ByteRangeSet;
+  // Bytes covered by the last manifest written to IndexedDB
+  persistedBytes: number;
+  persisting: boolean;
+  finalizing: boolean;
+  status: 'transferring' | 'paused' | 'corrupted';
+  // The sender has sent file-complete; finish as soon as every range is here
+  completeRequested: boolean;
+  // Whole-file SHA-256 announced by the sender with file-complete
+  expectedHash?: string;
+  badRanges?: ByteRange[];
+  batchId?: string;
+  path?: string;
+  destination?: SaveDestination;
+  // Chunk bytes received this session before and after decompression
+  wireBytes: number;
+  rawBytes: number;
+  // Fed with bytes written in order; a gap or re-sent range falls back to
+  // reading the file back to verify it
+  hasher: Sha256 | null;
+  hashedBytes: number;
+  // Null until a transfer restored from a previous page session continues
+  sink: Promise<FileSink> | null;
+}
+
+interface DecodedChunk {
+  id: string;
+  index: number;
+  offset: number;
+  // Still compressed if the flag says so; inflated in arrival order, once
+  // the file's metadata is known
+  chunk: Uint8Array;
+  compressed: boolean;
+}
+
+interface DecodedPiece {
+  contentId: string;
+  index: number;
+  offset: number;
+  chunk: Uint8Array;
+}
+
+// A Chunk or Piece frame, decrypted. Its stream is looked up in arrival
+// order, once the stream-open or file-meta ahead of it has been applied.
+interface DecodedFrame {
+  kind: 'frame';
+  type: typeof FrameType.Chunk | typeof FrameType.Piece;
+  streamId: number;
+  index: number;
+  offset: number;
+  chunk: Uint8Array;
+  compressed: boolean;
+}
+
+type DecodedMessage =
+  | { kind: 'control'; message: WireMessage }
+  | DecodedFrame
+  | { kind: 'ignored' };
+
+// A swarm piece being reassembled from Piece frames
+interface PieceRequest {
+  // Offset of the piece within the file
+  start: number;
+  data: Uint8Array;
+  received: ByteRangeSet;
+  resolve: (data: Uint8Array) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface OutgoingFile {
+  file: File;
+  chunkSize: number;
+  sent: ByteRangeSet;
+  // Fed in order while streaming; falls back to a full pass after a resume
+  hasher: Sha256 | null;
+  hashedBytes: number;
+  sha256?: string;
+  // Completed entries stay until the receiver acknowledges the whole file
+  status: 'transferring' | 'paused' | 'completed' | 'cancelled';
+  // Bumped each time streaming starts so a superseded loop stops
+  run: number;
+  batchId?: string;
+  path?: string;
+  // Whether chunks are deflated before encryption, and the byte counts
+  compress: boolean;
+  wireBytes: number;
+  rawBytes: number;
+  // Set when the receiver pulls the file from the swarm rather than having
+  // it streamed; settled by its file-ack or cancel
+  pull?: { resolve: () => void; reject: (error: Error) => void };
+}
+
+export class WebRTCManager {
   private peerConnection: RTCPeerConnection | null = null;
   private dataChannel: RTCDataChannel | null = null;
-  private messageHandlers: Set<MessageHandler> = new Set();
-  private fileHandlers: Set<FileHandler> = new Set();
-  private calibrationHandlers: Set<CalibrationHandler> = new Set();
-  private receivedChunks: Map<string, Uint8Array[]> = new Map();
-  private receivedMeta: Map<string, { name: string; size: number; type: string }> = new Map();
+  private events = new TypedEventEmitter<WebRTCEvents>();
+  // Kept across disconnects so interrupted transfers can be resumed
+  private incomingFiles: Map<string, IncomingFile> = new Map();
+  // Receives this manager opened a sink for; in a room every manager only
+  // cleans up the staging files it owns
+  private stagedFiles: Set<string> = new Set();
+  private outgoingFiles: Map<string, OutgoingFile> = new Map();
+  private peerDeviceId: string | null = null;
+
+  // Consent: offers we sent awaiting an answer, offers we received awaiting
+  // the user, and file ids the user agreed to receive with their batch and
+  // the folder chosen to save it into. Consent lasts until the file is
+  // complete or dropped, so a file-meta resent on resume is still let in.
+  private pendingAnswers: Map<string, { resolve: (answer: TransferAnswerMessage) => void; reject: (error: Error) => void }> = new Map();
+  private incomingOffers: Map<string, TransferOffer> = new Map();
+  private acceptedFiles: Map<string, { batchId: string; destination?: SaveDestination; file: TransferOffer['files'][number] }> = new Map();
+
+  // Protocol state for the current connection
+  private protocol: NegotiatedProtocol | null = null;
+  private handshakeTimer: ReturnType<typeof setTimeout> | undefined;
+  private incomingStreams: Map<number, string> = new Map();
+  private outgoingStreams: Map<string, number> = new Map();
+  private nextStreamId = 1;
+
+  // Swarm: files the receiver pulls, settled once it has them (sendFile
+  // waits on these instead of streaming), pieces we asked the peer for, and
+  // piece serving, which runs outside the inbound queue
+  private pulls: Map<string, Promise<void>> = new Map();
+  private pieceRequests: Map<string, PieceRequest> = new Map();
+  private swarmQueue: Promise<void> = Promise.resolve();
+  // Set by the room; nothing is offered to or served from the swarm without it
+  private swarmLibrary: SwarmLibrary | null = null;
+
+  // Trickle ICE for the current connection: what we gathered so far (null
+  // once done) and the peer's candidates that beat its description here
+  private localCandidates: Array<TrickleCandidate | null> = [];
+  private pendingRemoteCandidates: Array<TrickleCandidate | null> = [];
+
+  // The policy the current connection was made under and the path it took
+  private policy: ConnectionPolicy = 'direct';
+  private path: ConnectionPath | null = null;
+
+  // ICE restart. Only the side that made the offer restarts, so the two
+  // never collide, and the other answers; the room the connection was set
+  // up through carries the exchange when the data channel can't
+  private isOfferer = false;
+  private wasConnected = false;
+  private reconnecting = false;
+  private graceTimer: ReturnType<typeof setTimeout> | undefined;
+  private giveUpTimer: ReturnType<typeof setTimeout> | undefined;
+  private restartRoom: { signaling: SignalingTransport; pin: string; role: IceRole; peerId?: string } | null = null;
+  private stopRestartListener: (() => void) | null = null;
+  private restartAnswer: ((description: string) => void) | null = null;
+  private lastRestartOffer: string | null = null;
+
+  // Tail of the ordered receive pipeline
+  private inbound: Promise<void> = Promise.resolve();
+  private restoredTransfers: Promise<FileTransfer[]> | null = null;
 
   // Encryption
   private keyPair: EncryptionKeys | null = null;
   private sharedKey: CryptoKey | null = null;
   private isEncrypted: boolean = false;
+  // Both sides' ECDH public keys, which the identity signatures in the
+  // hellos cover, and the peer's verified identity fingerprint
+  private sessionKeys: { local: string; remote: string } | null = null;
+  private peerIdentity: string | null = null;
 
   // Dynamic transfer configuration
   private transferConfig: TransferConfig = { ...DEFAULT_CONFIG };
   private isCalibrating: boolean = false;
-  private calibrationResults: Map<string, { size: number; startTime: number }> = new Map();
-
-  private rtcConfig: RTCConfiguration = {
-    iceServers: [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:global.stun.twilio.com:3478' },
-      {
-        urls: 'turn:global.relay.metered.ca:80',
-        username: 'e8dd65b92f6ec01bf7e7c5a3',
-        credential: 'uWdEMvEiz+qsS3V2',
-      },
-      {
-        urls: 'turn:global.relay.metered.ca:80?transport=tcp',
-        username: 'e8dd65b92f6ec01bf7e7c5a3',
-        credential: 'uWdEMvEiz+qsS3V2',
-      },
-      {
-        urls: 'turn:global.relay.metered.ca:443',
-        username: 'e8dd65b92f6ec01bf7e7c5a3',
-        credential: 'uWdEMvEiz+qsS3V2',
-      },
-      {
-        urls: 'turns:global.relay.metered.ca:443?transport=tcp',
-        username: 'e8dd65b92f6ec01bf7e7c5a3',
-        credential: 'uWdEMvEiz+qsS3V2',
-      },
-    ],
-    iceCandidatePoolSize: 10,
-    iceTransportPolicy: 'all',
-  };
+  private calibration: Promise<ConnectionStats> | null = null;
+  private calibrationResults: Map<string, { size: number; startTime: number; onPong: () => void }> = new Map();
+
+  private encryption: EncryptionPolicy;
+  private signalingTransport: SignalingTransport;
 
-  onMessage(handler: MessageHandler) {
-    this.messageHandlers.add(handler);
-    return () => this.messageHandlers.delete(handler);
+  constructor(readonly config: WebRTCManagerConfig = {}) {
+    this.encryption = config.encryption ?? 'preferred';
+    this.signalingTransport = config.signaling ?? createSignaling(loadConnectionSettings());
+
+    if (config.restorePartials !== false) {
+      // Runs on page load, before anything is received: whatever is staged
+      // without a manifest was left behind by an earlier page
+      this.restorePartialTransfers().then(() => clearStagedFiles(new Set(this.stagedFiles)));
+    }
+    window.addEventListener('pagehide', this.handlePageHide);
   }
 
-  onFile(handler: FileHandler) {
-    this.fileHandlers.add(handler);
-    return () => this.fileHandlers.delete(handler);
+  get signaling(): SignalingTransport {
+    return this.signalingTransport;
   }
 
-  onCalibration(handler: CalibrationHandler) {
-    this.calibrationHandlers.add(handler);
-    return () => this.calibrationHandlers.delete(handler);
+  // Switch signaling, e.g. after the settings change; rooms already open
+  // keep the transport they were opened with
+  setSignaling(transport: SignalingTransport) {
+    this.signalingTransport = transport;
   }
 
-  private emit(message: any) {
-    this.messageHandlers.forEach(handler => handler(message));
+  // Best effort: record the latest progress before the page goes away
+  private handlePageHide = () => {
+    this.incomingFiles.forEach((incoming, id) => {
+      if (incoming.status === 'transferring') this.persistIncoming(id, incoming);
+    });
+  };
+
+  // Subscribe to a manager event; returns an unsubscribe function
+  on<K extends WebRTCEventName>(event: K, handler: (payload: WebRTCEvents[K]) => void): () => void {
+    return this.events.on(event, handler);
   }
 
   private emitFile(file: FileTransfer) {
-    this.fileHandlers.forEach(handler => handler(file));
+    this.events.emit('file', file);
   }
 
-  private emitCalibration(stats: ConnectionStats) {
-    this.calibrationHandlers.forEach(handler => handler(stats));
+  private sendControl(message: WireMessage) {
+    this.dataChannel?.send(JSON.stringify(message));
   }
 
   getTransferConfig(): TransferConfig {
     return { ...this.transferConfig };
   }
 
-  async createOffer(): Promise<{ offer: string; publicKey: string }> {
-    this.keyPair = await generateKeyPair();
-    const publicKeyStr = await exportPublicKey(this.keyPair.publicKey);
+  // The public key is empty when encryption is disabled
+  async createOffer(options: SessionOptions = {}): Promise<{ offer: string; publicKey: string }> {
+    let publicKeyStr = '';
+    this.sessionKeys = null;
+    if (this.encryption !== 'disabled') {
+      this.keyPair = await generateKeyPair();
+      publicKeyStr = await exportPublicKey(this.keyPair.publicKey);
+    }
 
-    this.peerConnection = new RTCPeerConnection(this.rtcConfig);
+    this.peerConnection = await this.createPeerConnection();
     this.setupConnectionHandlers();
 
+    this.isOfferer = true;
+
     this.dataChannel = this.peerConnection.createDataChannel('fileTransfer', {
       ordered: true,
       maxRetransmits: 30,
@@ -159,7 +487,7 @@ class WebRTCManager {
     const offer = await this.peerConnection.createOffer();
     await this.peerConnection.setLocalDescription(offer);
 
-    await this.waitForIceGathering();
+    if (!options.trickle) await this.waitForIceGathering();
 
     const sdp = this.peerConnection.localDescription;
     return {
@@ -168,30 +496,44 @@ class WebRTCManager {
     };
   }
 
-  async handleOffer(encodedOffer: string, peerPublicKey: string): Promise<{ answer: string; publicKey: string }> {
-    const offer = JSON.parse(atob(encodedOffer));
+  async handleOffer(
+    encodedOffer: string,
+    peerPublicKey: string,
+    options: SessionOptions = {}
+  ): Promise<{ answer: string; publicKey: string }> {
+    if (!peerPublicKey && this.encryption === 'required') {
+      throw new Error('The other device does not support encryption');
+    }
 
-    this.keyPair = await generateKeyPair();
-    const publicKeyStr = await exportPublicKey(this.keyPair.publicKey);
+    let publicKeyStr = '';
+    this.sessionKeys = null;
+    if (peerPublicKey && this.encryption !== 'disabled') {
+      this.keyPair = await generateKeyPair();
+      publicKeyStr = await exportPublicKey(this.keyPair.publicKey);
 
-    const peerKey = await importPublicKey(peerPublicKey);
-    this.sharedKey = await deriveSharedKey(this.keyPair.privateKey, peerKey);
-    this.isEncrypted = true;
+      const peerKey = await importPublicKey(peerPublicKey);
+      this.sharedKey = await deriveSharedKey(this.keyPair.privateKey, peerKey);
+      this.isEncrypted = true;
+      this.sessionKeys = { local: publicKeyStr, remote: peerPublicKey };
+    }
 
-    this.peerConnection = new RTCPeerConnection(this.rtcConfig);
+    this.peerConnection = await this.createPeerConnection();
     this.setupConnectionHandlers();
 
+    this.isOfferer = false;
+
     this.peerConnection.ondatachannel = (event) => {
       this.dataChannel = event.channel;
       this.dataChannel.bufferedAmountLowThreshold = this.transferConfig.bufferLowThreshold;
       this.setupDataChannelHandlers(this.dataChannel);
     };
 
-    await this.peerConnection.setRemoteDescription(offer);
+    await this.peerConnection.setRemoteDescription(this.decodeRemoteDescription(encodedOffer));
+    await this.flushRemoteCandidates();
     const answer = await this.peerConnection.createAnswer();
     await this.peerConnection.setLocalDescription(answer);
 
-    await this.waitForIceGathering();
+    if (!options.trickle) await this.waitForIceGathering();
 
     const sdp = this.peerConnection.localDescription;
     return {
@@ -201,15 +543,170 @@ class WebRTCManager {
   }
 
   async handleAnswer(encodedAnswer: string, peerPublicKey: string) {
-    const answer = JSON.parse(atob(encodedAnswer));
-
-    if (this.keyPair) {
+    if (this.keyPair && peerPublicKey) {
       const peerKey = await importPublicKey(peerPublicKey);
       this.sharedKey = await deriveSharedKey(this.keyPair.privateKey, peerKey);
       this.isEncrypted = true;
+      this.sessionKeys = { local: await exportPublicKey(this.keyPair.publicKey), remote: peerPublicKey };
+    } else if (this.encryption === 'required') {
+      throw new Error('The other device does not support encryption');
     }
 
-    await this.peerConnection?.setRemoteDescription(answer);
+    await this.peerConnection?.setRemoteDescription(this.decodeRemoteDescription(encodedAnswer));
+    await this.flushRemoteCandidates();
+  }
+
+  // ============= TRICKLE ICE =============
+
+  // Swap candidates with the other side through a signaling room, for an
+  // offer or answer made with { trickle: true }: ours go out as `role`, the
+  // other side's are applied as they arrive. Returns a function that stops
+  // both; call it once connected or when giving up. The room keeps carrying
+  // ICE restarts for as long as the connection lasts.
+  trickle(signaling: SignalingTransport, pin: string, role: IceRole, peerId?: string): () => void {
+    const remoteRole: IceRole = role === 'offerer' ? 'answerer' : 'offerer';
+    this.listenForRestarts(signaling, pin, role, peerId);
+
+    let publishing = Promise.resolve();
+    // One at a time, so end-of-candidates goes out last
+    const publish = (candidate: TrickleCandidate | null) => {
+      publishing = publishing
+        .then(() => signaling.publishCandidate(pin, role, candidate, peerId))
+        .catch((error) => console.warn('Failed to send ICE candidate:', error));
+    };
+
+    this.localCandidates.forEach(publish);
+    const stopLocal = this.events.on('iceCandidate', ({ candidate }) => publish(candidate));
+    const stopRemote = signaling.onCandidate(pin, remoteRole, (candidate) => this.addIceCandidate(candidate), peerId);
+    return () => {
+      stopLocal();
+      stopRemote();
+    };
+  }
+
+  // Apply a candidate from the peer; null means it has sent them all
+  async addIceCandidate(candidate: TrickleCandidate | null) {
+    if (!this.peerConnection) return;
+    if (candidate && !this.allowsCandidate(candidate.candidate)) return;
+    if (!this.peerConnection.remoteDescription) {
+      this.pendingRemoteCandidates.push(candidate);
+      return;
+    }
+    try {
+      await this.peerConnection.addIceCandidate(candidate ?? undefined);
+    } catch (error) {
+      console.warn('Failed to add ICE candidate:', error);
+    }
+  }
+
+  private async flushRemoteCandidates() {
+    const pending = this.pendingRemoteCandidates;
+    this.pendingRemoteCandidates = [];
+    for (const candidate of pending) {
+      await this.addIceCandidate(candidate);
+    }
+  }
+
+  private async createPeerConnection(): Promise<RTCPeerConnection> {
+    const settings = loadConnectionSettings();
+    const policy = this.config.connectionPolicy ?? settings.connectionPolicy;
+    // With no STUN or TURN servers only host candidates are gathered
+    const iceServers = policy === 'lan' ? [] : this.config.iceServers ?? await resolveIceServers(settings);
+    if (policy === 'relay' && !hasTurnServer(iceServers)) {
+      throw new ConnectionPolicyError('Relay-only connections need a TURN server; add one under Settings');
+    }
+
+    this.policy = policy;
+    this.path = null;
+    return new RTCPeerConnection({
+      iceServers,
+      iceCandidatePoolSize: policy === 'lan' ? 0 : 10,
+      iceTransportPolicy: policy === 'relay' ? 'relay' : 'all',
+    });
+  }
+
+  // ============= CONNECTION POLICY =============
+
+  // The peer's offer or answer, minus candidates the policy rules out
+  private decodeRemoteDescription(encoded: string): RTCSessionDescriptionInit {
+    const description: RTCSessionDescriptionInit = JSON.parse(atob(encoded));
+    if (this.policy === 'lan' && description.sdp) {
+      description.sdp = keepHostCandidates(description.sdp);
+    }
+    return description;
+  }
+
+  // LAN-only connections skip the peer's reflexive and relay candidates;
+  // end-of-candidates markers carry no type and always pass
+  private allowsCandidate(candidate: string): boolean {
+    const type = candidateType(candidate);
+    return this.policy !== 'lan' || type === null || type === 'host';
+  }
+
+  // The path of the current connection, once ICE has picked one
+  getConnectionPath(): ConnectionPath | null {
+    return this.path;
+  }
+
+  // The candidate pair in use, or null before ICE has picked one
+  private async getSelectedPair(pc: RTCPeerConnection): Promise<{ stats: RTCStatsReport; pair: RTCIceCandidatePairStats } | null> {
+    const stats = await pc.getStats();
+    let pair: RTCIceCandidatePairStats | null = null;
+    stats.forEach((report) => {
+      if (report.type === 'transport' && report.selectedCandidatePairId) {
+        pair = stats.get(report.selectedCandidatePairId) ?? null;
+      }
+    });
+    // Firefox has no transport stats
+    if (!pair) {
+      stats.forEach((report) => {
+        if (report.type === 'candidate-pair' && report.nominated && report.state === 'succeeded') pair = report;
+      });
+    }
+    return pair ? { stats, pair } : null;
+  }
+
+  private async readConnectionPath(pc: RTCPeerConnection): Promise<ConnectionPath | null> {
+    const selected = await this.getSelectedPair(pc);
+    if (!selected) return null;
+    const local = selected.stats.get(selected.pair.localCandidateId);
+    const remote = selected.stats.get(selected.pair.remoteCandidateId);
+    if (!local?.candidateType || !remote?.candidateType) return null;
+    return {
+      local: local.candidateType,
+      remote: remote.candidateType,
+      // Older browsers call it `ip`
+      localAddress: local.address ?? local.ip ?? undefined,
+      remoteAddress: remote.address ?? remote.ip ?? undefined,
+      protocol: local.protocol ?? 'udp',
+    };
+  }
+
+  // Report the path ICE settled on, and refuse a LAN-only connection that
+  // got out of the local network anyway
+  private async checkConnectionPath(pc: RTCPeerConnection) {
+    let path: ConnectionPath | null = null;
+    try {
+      path = await this.readConnectionPath(pc);
+    } catch (error) {
+      console.warn('Failed to read the connection path:', error);
+    }
+    if (!path || this.peerConnection !== pc) return;
+
+    console.log(`Connected via ${path.local} -> ${path.remote} (${path.protocol})`);
+    if (this.policy === 'lan' && !isLocalPath(path)) {
+      this.failPolicy('The other device is not on your local network');
+      return;
+    }
+    this.path = path;
+    this.events.emit('path', path);
+  }
+
+  private failPolicy(reason: string) {
+    console.warn('Connection ruled out by policy:', reason);
+    this.events.emit('protocolError', { message: reason });
+    this.dataChannel?.close();
+    this.peerConnection?.close();
   }
 
   private waitForIceGathering(timeoutMs: number = 4000): Promise<void> {
@@ -235,14 +732,24 @@ class WebRTCManager {
 
   // ============= DYNAMIC CALIBRATION =============
 
-  async calibrateConnection(): Promise<ConnectionStats> {
+  // Callers arriving while a calibration runs share its result
+  calibrateConnection(): Promise<ConnectionStats> {
+    if (!this.calibration) {
+      this.calibration = this.runCalibration().finally(() => {
+        this.calibration = null;
+      });
+    }
+    return this.calibration;
+  }
+
+  private async runCalibration(): Promise<ConnectionStats> {
     if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
       throw new Error('Data channel not ready for calibration');
     }
 
     this.isCalibrating = true;
     console.log('Starting connection calibration...');
-    this.emit({ type: 'calibrationStart' });
+    this.events.emit('calibrationStart');
 
     try {
       // Get connection stats first
@@ -294,8 +801,7 @@ class WebRTCManager {
       };
 
       console.log('Calibration complete:', connectionStats);
-      this.emit({ type: 'calibrationComplete', stats: connectionStats });
-      this.emitCalibration(connectionStats);
+      this.events.emit('calibrationComplete', { stats: connectionStats });
 
       return connectionStats;
     } finally {
@@ -316,14 +822,15 @@ class WebRTCManager {
       // Fill with random data for realistic test
       crypto.getRandomValues(testData);
 
-      const testPacket = new Uint8Array(1 + testId.length + testData.length);
-      const idBytes = new TextEncoder().encode(testId);
-      testPacket[0] = idBytes.length;
-      testPacket.set(idBytes, 1);
-      testPacket.set(testData, 1 + idBytes.length);
+      const testPacket = encodeFrame({
+        type: FrameType.Calibration,
+        streamId: 0,
+        index: 0,
+        offset: 0,
+        payload: testData,
+      });
 
       const startTime = performance.now();
-      this.calibrationResults.set(testId, { size, startTime });
 
       // Set timeout for this test
       const timeout = setTimeout(() => {
@@ -331,33 +838,30 @@ class WebRTCManager {
         reject(new Error(`Chunk size ${size} timed out`));
       }, 5000);
 
-      // Send calibration request
-      this.dataChannel.send(JSON.stringify({
-        type: 'calibration-ping',
-        id: testId,
+      // Resolved when the matching calibration-pong arrives
+      this.calibrationResults.set(testId, {
         size,
-      }));
-
-      // Create handler for response
-      const handleMessage = (msg: any) => {
-        if (msg.type === 'calibration-pong' && msg.id === testId) {
+        startTime,
+        onPong: () => {
           clearTimeout(timeout);
           const endTime = performance.now();
           const rtt = endTime - startTime;
           const bandwidth = (size * 2) / (rtt / 1000); // Round trip, so x2
           this.calibrationResults.delete(testId);
-          this.messageHandlers.delete(handleMessage);
           resolve(bandwidth);
-        }
-      };
+        },
+      });
 
-      this.messageHandlers.add(handleMessage);
+      // Send calibration request
+      this.sendControl({
+        type: 'calibration-ping',
+        id: testId,
+        size,
+      });
 
       // Also send the actual binary data to test throughput
       try {
-        const buffer = new ArrayBuffer(testPacket.length);
-        new Uint8Array(buffer).set(testPacket);
-        this.dataChannel.send(buffer);
+        this.dataChannel.send(testPacket);
       } catch (error) {
         clearTimeout(timeout);
         this.calibrationResults.delete(testId);
@@ -372,20 +876,12 @@ class WebRTCManager {
     }
 
     try {
-      const stats = await this.peerConnection.getStats();
-      let connectionType = 'unknown';
-      let rtt = 0;
-
-      stats.forEach((report) => {
-        if (report.type === 'candidate-pair' && report.state === 'succeeded') {
-          rtt = report.currentRoundTripTime ? report.currentRoundTripTime * 1000 : 0;
-        }
-        if (report.type === 'local-candidate') {
-          connectionType = report.candidateType || 'unknown';
-        }
-      });
-
-      return { connectionType, rtt };
+      const selected = await this.getSelectedPair(this.peerConnection);
+      const local = selected?.stats.get(selected.pair.localCandidateId);
+      return {
+        connectionType: local?.candidateType ?? 'unknown',
+        rtt: selected?.pair.currentRoundTripTime ? selected.pair.currentRoundTripTime * 1000 : 0,
+      };
     } catch {
       return { connectionType: 'unknown', rtt: 0 };
     }
@@ -400,10 +896,17 @@ class WebRTCManager {
       console.log('ICE gathering state:', this.peerConnection?.iceGatheringState);
     };
 
+    this.localCandidates = [];
+    this.pendingRemoteCandidates = [];
+    this.resetRestart();
+
     this.peerConnection.onicecandidate = (event) => {
       if (event.candidate) {
         console.log('ICE candidate type:', event.candidate.type, 'protocol:', event.candidate.protocol);
       }
+      const candidate = event.candidate ? (event.candidate.toJSON() as TrickleCandidate) : null;
+      this.localCandidates.push(candidate);
+      this.events.emit('iceCandidate', { candidate });
     };
 
     this.peerConnection.onicecandidateerror = (event) => {
@@ -415,271 +918,1645 @@ class WebRTCManager {
     this.peerConnection.oniceconnectionstatechange = () => {
       const state = this.peerConnection?.iceConnectionState;
       console.log('ICE connection state:', state);
-      this.emit({ type: 'connectionState', state });
-
-      if (state === 'disconnected' || state === 'failed') {
-        console.log('Attempting ICE restart...');
-        this.attemptIceRestart();
-      }
+      this.events.emit('connectionState', { state });
+      this.handleIceState(state);
     };
 
     this.peerConnection.onconnectionstatechange = () => {
       const state = this.peerConnection?.connectionState;
       console.log('Connection state:', state);
-      this.emit({ type: 'connectionState', state });
+      this.events.emit('connectionState', { state });
     };
   }
 
-  private async attemptIceRestart() {
-    if (!this.peerConnection) return;
+  // ============= ICE RESTART =============
+
+  private handleIceState(state: RTCIceConnectionState) {
+    if (state === 'connected' || state === 'completed') {
+      if (this.peerConnection) this.checkConnectionPath(this.peerConnection);
+      this.wasConnected = true;
+      clearTimeout(this.graceTimer);
+      this.graceTimer = undefined;
+      if (this.reconnecting) {
+        this.reconnecting = false;
+        clearTimeout(this.giveUpTimer);
+        console.log('Connection recovered');
+        this.events.emit('reconnect', { state: 'recovered' });
+      }
+    } else if (state === 'disconnected') {
+      // Often a blip that sorts itself out
+      if (!this.reconnecting && this.graceTimer === undefined) {
+        this.graceTimer = setTimeout(() => {
+          this.graceTimer = undefined;
+          this.startReconnecting();
+        }, DISCONNECT_GRACE_MS);
+      }
+    } else if (state === 'failed') {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = undefined;
+      if (!this.wasConnected && this.policy === 'lan') {
+        this.failPolicy('No direct path to the other device on your local network');
+        return;
+      }
+      this.startReconnecting();
+    }
+  }
+
+  // A connection that never came up is not restarted; callers see it fail
+  private startReconnecting() {
+    const pc = this.peerConnection;
+    if (this.reconnecting || !pc || !this.wasConnected) return;
+    const state = pc.iceConnectionState;
+    if (state === 'connected' || state === 'completed') return;
+
+    this.reconnecting = true;
+    console.log('Connection lost, restarting ICE...');
+    if (this.isOfferer) {
+      this.restartIce(pc);
+    } else {
+      this.events.emit('reconnect', { state: 'reconnecting' });
+      this.giveUpTimer = setTimeout(() => this.giveUpReconnecting(), RESTART_GIVE_UP_MS);
+    }
+  }
+
+  private giveUpReconnecting() {
+    if (!this.reconnecting) return;
+    this.reconnecting = false;
+    clearTimeout(this.giveUpTimer);
+    console.warn('Giving up on reconnecting');
+    this.events.emit('reconnect', { state: 'failed' });
+  }
+
+  private async restartIce(pc: RTCPeerConnection) {
+    for (let attempt = 1; attempt <= MAX_RESTART_ATTEMPTS; attempt++) {
+      if (attempt > 1) await delay(RESTART_BACKOFF_MS * 2 ** (attempt - 2));
+      if (!this.reconnecting || this.peerConnection !== pc) return;
+      this.events.emit('reconnect', { state: 'reconnecting', attempt });
+
+      try {
+        const offer = await pc.createOffer({ iceRestart: true });
+        await pc.setLocalDescription(offer);
+        await this.waitForIceGathering();
+        const answer = await this.exchangeRestart(btoa(JSON.stringify(pc.localDescription)));
+        await pc.setRemoteDescription(this.decodeRemoteDescription(answer));
+        if (await this.waitForIceConnected(pc, RESTART_CONNECT_TIMEOUT_MS)) return;
+      } catch (error) {
+        console.warn(`ICE restart attempt ${attempt} failed:`, error);
+        if (pc.signalingState === 'have-local-offer') {
+          await pc.setLocalDescription({ type: 'rollback' }).catch(() => {});
+        }
+      }
+    }
+    if (this.peerConnection === pc) this.giveUpReconnecting();
+  }
+
+  // Send our restart offer whichever way gets through and wait for the answer
+  private async exchangeRestart(description: string): Promise<string> {
+    const answer = new Promise<string>((resolve) => {
+      this.restartAnswer = resolve;
+    });
+    const answerWithin = (ms: number) => Promise.race([answer, delay(ms).then(() => null)]);
+
+    try {
+      if (this.dataChannel?.readyState === 'open' && this.hasFeature('ice-restart')) {
+        this.sendControl({ type: 'ice-restart', kind: 'offer', description });
+        const viaChannel = await answerWithin(RESTART_CHANNEL_TIMEOUT_MS);
+        if (viaChannel) return viaChannel;
+      }
+
+      const room = this.restartRoom;
+      if (!room) throw new Error('The data channel is down and there is no room to signal through');
+      await room.signaling.publishRestart(room.pin, room.role, description, room.peerId);
+      const viaSignaling = await answerWithin(RESTART_SIGNALING_TIMEOUT_MS);
+      if (!viaSignaling) throw new Error('The peer did not answer the restart');
+      return viaSignaling;
+    } finally {
+      this.restartAnswer = null;
+    }
+  }
+
+  // Answer the offerer's restart the way it reached us
+  private async answerRestart(description: string, via: 'channel' | 'signaling') {
+    const pc = this.peerConnection;
+    // The same offer may come both ways
+    if (!pc || this.isOfferer || description === this.lastRestartOffer) return;
+    this.lastRestartOffer = description;
 
     try {
-      const offer = await this.peerConnection.createOffer({ iceRestart: true });
-      await this.peerConnection.setLocalDescription(offer);
-      console.log('ICE restart initiated');
+      await pc.setRemoteDescription(this.decodeRemoteDescription(description));
+      const answer = await pc.createAnswer();
+      await pc.setLocalDescription(answer);
+      await this.waitForIceGathering();
+      const encoded = btoa(JSON.stringify(pc.localDescription));
+
+      if (via === 'channel') {
+        this.sendControl({ type: 'ice-restart', kind: 'answer', description: encoded });
+      } else {
+        const room = this.restartRoom;
+        await room?.signaling.publishRestart(room.pin, room.role, encoded, room.peerId);
+      }
     } catch (error) {
-      console.error('ICE restart failed:', error);
+      console.warn('Failed to answer ICE restart:', error);
     }
   }
 
+  private listenForRestarts(signaling: SignalingTransport, pin: string, role: IceRole, peerId?: string) {
+    this.stopRestartListener?.();
+    this.restartRoom = { signaling, pin, role, peerId };
+    const remoteRole: IceRole = role === 'offerer' ? 'answerer' : 'offerer';
+    this.stopRestartListener = signaling.onRestart(pin, remoteRole, (description) => {
+      if (role === 'offerer') this.restartAnswer?.(description);
+      else this.answerRestart(description, 'signaling');
+    }, peerId);
+  }
+
+  private waitForIceConnected(pc: RTCPeerConnection, timeoutMs: number): Promise<boolean> {
+    const isConnected = () => pc.iceConnectionState === 'connected' || pc.iceConnectionState === 'completed';
+    if (isConnected()) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const onStateChange = () => {
+        if (isConnected()) finish(true);
+      };
+      const timer = setTimeout(() => finish(false), timeoutMs);
+      const finish = (connected: boolean) => {
+        clearTimeout(timer);
+        pc.removeEventListener('iceconnectionstatechange', onStateChange);
+        resolve(connected);
+      };
+      pc.addEventListener('iceconnectionstatechange', onStateChange);
+    });
+  }
+
+  private resetRestart() {
+    this.wasConnected = false;
+    this.reconnecting = false;
+    clearTimeout(this.graceTimer);
+    clearTimeout(this.giveUpTimer);
+    this.graceTimer = undefined;
+    this.stopRestartListener?.();
+    this.stopRestartListener = null;
+    this.restartRoom = null;
+    this.restartAnswer = null;
+    this.lastRestartOffer = null;
+  }
+
   private setupDataChannelHandlers(channel: RTCDataChannel) {
     channel.binaryType = 'arraybuffer';
 
     channel.onopen = () => {
       console.log('Data channel opened');
-      this.emit({ type: 'channelOpen' });
+      this.startHandshake(channel);
     };
 
     channel.onclose = () => {
       console.log('Data channel closed');
-      this.emit({ type: 'channelClose' });
+      clearTimeout(this.handshakeTimer);
+      this.protocol = null;
+      this.pauseIncomingTransfers();
+      this.dropOffers();
+      this.dropSwarm();
+      this.events.emit('channelClose');
     };
 
     channel.onmessage = (event) => {
-      this.handleIncomingMessage(event.data);
+      // Decryption starts right away and may complete in any order, but the
+      // results are applied strictly in arrival order
+      const decoded = this.decodeIncoming(event.data);
+      this.inbound = this.inbound
+        .then(async () => this.handleIncomingMessage(await decoded))
+        .catch(error => {
+          console.error('Failed to handle incoming message:', error);
+        });
     };
 
     channel.onerror = (error) => {
       console.error('Data channel error:', error);
-      this.emit({ type: 'error', error });
+      this.events.emit('error', { error });
     };
   }
 
-  private async handleIncomingMessage(data: ArrayBuffer | string) {
-    if (typeof data === 'string') {
-      let message = JSON.parse(data);
+  // ============= PROTOCOL HANDSHAKE =============
+
+  // channelOpen is only emitted once both sides agree on a protocol version
+  private startHandshake(channel: RTCDataChannel) {
+    this.protocol = null;
+    this.incomingStreams.clear();
+    this.outgoingStreams.clear();
+    this.nextStreamId = 1;
+
+    clearTimeout(this.handshakeTimer);
+    this.handshakeTimer = setTimeout(() => {
+      this.failHandshake('The other device did not respond to the protocol handshake. It may be running an older version of the app.');
+    }, HANDSHAKE_TIMEOUT_MS);
+
+    this.proveIdentity()
+      .catch((error) => {
+        console.warn('Connecting without proving our identity:', error);
+        return undefined;
+      })
+      .then((identity) => {
+        if (channel.readyState === 'open') channel.send(JSON.stringify(createHello(getDeviceId(), identity)));
+      });
+  }
 
-      // Handle calibration messages
-      if (message.type === 'calibration-ping') {
-        // Respond to calibration ping
-        this.dataChannel?.send(JSON.stringify({
-          type: 'calibration-pong',
-          id: message.id,
-          size: message.size,
-        }));
-        return;
-      }
+  // Sign this session's ECDH keys with our identity key, so the peer can
+  // recognise us next time without taking our word for it
+  private async proveIdentity(): Promise<HelloMessage['identity']> {
+    if (!this.sessionKeys) return undefined;
+    const { publicKey, privateKey } = await getDeviceIdentity();
+    const signature = await signString(privateKey, `${this.sessionKeys.local}:${this.sessionKeys.remote}`);
+    return { key: publicKey, signature };
+  }
 
-      if (message.type === 'calibration-pong') {
-        // Let the handler in testChunkSize process this
-        this.emit(message);
-        return;
-      }
+  // The fingerprint of the peer's identity key if its signature over this
+  // session's ECDH keys checks out. Those keys derived the shared key, so
+  // someone replaying another device's hello can't produce a valid one.
+  private async verifyIdentity(identity: HelloMessage['identity']): Promise<string | null> {
+    if (!identity || !this.sessionKeys) return null;
+    try {
+      const key = await importIdentityKey(identity.key, 'verify');
+      const valid = await verifyString(key, identity.signature, `${this.sessionKeys.remote}:${this.sessionKeys.local}`);
+      return valid ? await fingerprintIdentityKey(identity.key) : null;
+    } catch (error) {
+      console.warn('Invalid identity from peer:', error);
+      return null;
+    }
+  }
+
+  private async completeHandshake(hello: HelloMessage) {
+    clearTimeout(this.handshakeTimer);
+
+    try {
+      this.protocol = negotiateProtocol(hello);
+    } catch (error) {
+      const reason = error instanceof ProtocolError ? error.message : 'Invalid handshake';
+      this.sendControl({ type: 'protocol-error', reason });
+      this.failHandshake(reason);
+      return;
+    }
+
+    console.log(`Protocol v${this.protocol.version} negotiated, features:`, [...this.protocol.features]);
+    this.peerDeviceId = hello.deviceId;
+    this.peerIdentity = await this.verifyIdentity(hello.identity);
+    this.events.emit('channelOpen');
+
+    if (this.protocol.features.has('resume')) {
+      await this.resumeTransfersFrom(hello.deviceId);
+    }
+  }
+
+  private failHandshake(reason: string) {
+    console.error('Protocol handshake failed:', reason);
+    this.events.emit('protocolError', { message: reason });
+    this.dataChannel?.close();
+    this.peerConnection?.close();
+  }
+
+  // Bind a file to a numeric stream id on the current connection
+  private openOutgoingStream(id: string): number {
+    let streamId = this.outgoingStreams.get(id);
+    if (streamId === undefined) {
+      streamId = this.nextStreamId++;
+      this.outgoingStreams.set(id, streamId);
+      this.sendControl({ type: 'stream-open', id, stream: streamId });
+    }
+    return streamId;
+  }
+
+  // Parse and decrypt an incoming message. Runs as soon as the message
+  // arrives, so several decrypts can be in flight at once.
+  private async decodeIncoming(data: ArrayBuffer | string): Promise<DecodedMessage> {
+    if (typeof data === 'string') {
+      // Malformed or unknown messages are dropped here
+      const message = parseWireMessage(data);
+      if (!message) return { kind: 'ignored' };
 
       // Decrypt metadata if encrypted
-      if (message.encrypted && this.sharedKey) {
+      if (message.type === 'file-meta' && message.encrypted && this.sharedKey) {
         try {
-          if (message.type === 'file-meta') {
-            message.name = await decryptString(this.sharedKey, message.name);
-            message.fileType = await decryptString(this.sharedKey, message.fileType);
+          message.name = await decryptString(this.sharedKey, message.name);
+          message.fileType = await decryptString(this.sharedKey, message.fileType);
+          if (message.path) message.path = await decryptString(this.sharedKey, message.path);
+        } catch (error) {
+          console.error('Decryption error:', error);
+          return { kind: 'ignored' };
+        }
+      }
+
+      if (message.type === 'transfer-offer' && message.encrypted && this.sharedKey) {
+        try {
+          for (const file of message.files) {
+            file.name = await decryptString(this.sharedKey, file.name);
+            file.fileType = await decryptString(this.sharedKey, file.fileType);
+            if (file.path) file.path = await decryptString(this.sharedKey, file.path);
           }
         } catch (error) {
           console.error('Decryption error:', error);
+          return { kind: 'ignored' };
         }
       }
 
+      // Never trust a path from the peer to stay inside the save folder
       if (message.type === 'file-meta') {
-        this.receivedMeta.set(message.id, {
-          name: message.name,
-          size: message.size,
-          type: message.fileType,
-        });
-        this.receivedChunks.set(message.id, []);
-        this.emitFile({
-          id: message.id,
-          name: message.name,
-          size: message.size,
-          type: message.fileType,
-          progress: 0,
-          status: 'transferring',
+        message.path = sanitizeRelativePath(message.path);
+      } else if (message.type === 'transfer-offer') {
+        message.files.forEach(file => {
+          file.path = sanitizeRelativePath(file.path);
         });
-      } else if (message.type === 'file-complete') {
-        const chunks = this.receivedChunks.get(message.id);
-        const meta = this.receivedMeta.get(message.id);
-
-        if (chunks && meta) {
-          const blobParts = chunks.map(chunk => chunk.buffer as ArrayBuffer);
-          const blob = new Blob(blobParts, { type: meta.type });
-          this.emitFile({
-            id: message.id,
-            name: meta.name,
-            size: meta.size,
-            type: meta.type,
-            progress: 100,
-            status: 'completed',
-            data: blob,
-          });
-          this.receivedChunks.delete(message.id);
-          this.receivedMeta.delete(message.id);
-        }
-      } else {
-        this.emit(message);
-      }
-    } else {
-      // Binary data - could be calibration or file chunk
-      const view = new DataView(data);
-      const idLength = view.getUint8(0);
-      const decoder = new TextDecoder();
-      const id = decoder.decode(new Uint8Array(data, 1, idLength));
-
-      // Skip calibration data
-      if (id.startsWith('calibrate_')) {
-        return;
       }
 
-      let chunk: Uint8Array;
+      return { kind: 'control', message };
+    }
 
-      if (this.isEncrypted && this.sharedKey) {
-        const iv = new Uint8Array(data, 1 + idLength, 12);
-        const encrypted = new Uint8Array(data, 1 + idLength + 12);
+    // Binary data - could be calibration or file chunk
+    let frame: Frame;
+    try {
+      frame = decodeFrame(data);
+    } catch (error) {
+      // Most likely an older client speaking the pre-frame format
+      console.warn('Dropping unrecognised binary message:', error);
+      return { kind: 'ignored' };
+    }
 
-        try {
-          chunk = await decryptData(this.sharedKey, iv, encrypted);
-        } catch (error) {
-          console.error('Chunk decryption error:', error);
-          return;
-        }
-      } else {
-        chunk = new Uint8Array(data, 1 + idLength);
-      }
+    // Skip calibration data
+    if (frame.type !== FrameType.Chunk && frame.type !== FrameType.Piece) {
+      return { kind: 'ignored' };
+    }
 
-      const chunks = this.receivedChunks.get(id);
-      const meta = this.receivedMeta.get(id);
+    let chunk: Uint8Array;
 
-      if (chunks && meta) {
-        chunks.push(chunk);
-        const received = chunks.reduce((acc, c) => acc + c.length, 0);
-        const progress = Math.round((received / meta.size) * 100);
+    if (frame.iv) {
+      if (!this.sharedKey) return { kind: 'ignored' };
 
-        this.emitFile({
-          id,
-          name: meta.name,
-          size: meta.size,
-          type: meta.type,
-          progress,
+      try {
+        chunk = await decryptData(this.sharedKey, frame.iv, frame.payload);
+      } catch (error) {
+        console.error('Chunk decryption error:', error);
+        return { kind: 'ignored' };
+      }
+    } else if (this.sharedKey) {
+      // Never accept plaintext file data on an encrypted session
+      console.warn('Dropping unencrypted frame on an encrypted session');
+      return { kind: 'ignored' };
+    } else {
+      chunk = frame.payload;
+    }
+
+    return {
+      kind: 'frame',
+      type: frame.type,
+      streamId: frame.streamId,
+      index: frame.index,
+      offset: frame.offset,
+      chunk,
+      compressed: (frame.flags & FrameFlags.Compressed) !== 0,
+    };
+  }
+
+  // Apply decoded messages one at a time, in the order they arrived
+  private async handleIncomingMessage(decoded: DecodedMessage) {
+    if (decoded.kind === 'frame') {
+      const { type, streamId, index, offset, chunk, compressed } = decoded;
+      const id = this.incomingStreams.get(streamId);
+      if (!id) {
+        console.warn(`Chunk for unknown stream ${streamId}`);
+        return;
+      }
+      // Piece streams are bound to a content id rather than a file
+      if (type === FrameType.Piece) {
+        this.handleIncomingPiece({ contentId: id, index, offset, chunk });
+      } else {
+        await this.handleIncomingChunk({ id, index, offset, chunk, compressed });
+      }
+    } else if (decoded.kind === 'control') {
+      const { message } = decoded;
+
+      // Handle calibration messages
+      if (message.type === 'calibration-ping') {
+        // Respond to calibration ping
+        this.sendControl({
+          type: 'calibration-pong',
+          id: message.id,
+          size: message.size,
+        });
+      } else if (message.type === 'calibration-pong') {
+        // Completes the matching test in testChunkSize
+        this.calibrationResults.get(message.id)?.onPong();
+      } else if (message.type === 'hello') {
+        await this.completeHandshake(message);
+      } else if (message.type === 'protocol-error') {
+        clearTimeout(this.handshakeTimer);
+        this.failHandshake(message.reason || 'The other device rejected the connection');
+      } else if (message.type === 'stream-open') {
+        this.incomingStreams.set(message.stream, message.id);
+      } else if (message.type === 'file-meta') {
+        // A resent meta for a file we already hold keeps the partial data
+        const existing = this.incomingFiles.get(message.id);
+        if (existing) {
+          existing.status = 'transferring';
+          existing.completeRequested = false;
+          this.emitFile(this.toIncomingTransfer(message.id, existing));
+          return;
+        }
+
+        // Nothing is received without the user's consent
+        const accepted = this.acceptedFiles.get(message.id);
+        if (!accepted) {
+          console.warn(`Refusing file ${message.id} that was never accepted`);
+          this.sendControl({ type: 'transfer-cancel', id: message.id });
+          return;
+        }
+
+        // It must also be the file the user agreed to; nothing of the meta
+        // beyond its chunking is used, so a mismatch can only be refused
+        const { file } = accepted;
+        if (message.name !== file.name || message.size !== file.size || message.fileType !== file.type || message.path !== file.path) {
+          console.warn(`Refusing file ${message.id} that differs from the one accepted`);
+          this.acceptedFiles.delete(message.id);
+          this.sendControl({ type: 'transfer-cancel', id: message.id });
+          this.emitFile({ ...file, direction: 'receiving', progress: 0, status: 'error', batchId: accepted.batchId });
+          return;
+        }
+
+        const incoming: IncomingFile = {
+          name: file.name,
+          size: file.size,
+          type: file.type,
+          senderId: this.peerDeviceId ?? 'unknown',
+          chunkSize: message.chunkSize,
+          ranges: new ByteRangeSet(),
+          persistedBytes: 0,
+          persisting: false,
+          finalizing: false,
           status: 'transferring',
+          completeRequested: false,
+          batchId: accepted.batchId || undefined,
+          path: file.path,
+          destination: accepted.destination,
+          wireBytes: 0,
+          rawBytes: 0,
+          hasher: new Sha256(),
+          hashedBytes: 0,
+          sink: createFileSink({
+            id: message.id,
+            name: file.name,
+            type: file.type,
+            destination: accepted.destination,
+            path: file.path ?? sanitizeRelativePath(file.name),
+          }),
+        };
+        this.incomingFiles.set(message.id, incoming);
+        this.stagedFiles.add(message.id);
+        this.emitFile(this.toIncomingTransfer(message.id, incoming));
+      } else if (message.type === 'file-complete') {
+        const incoming = this.incomingFiles.get(message.id);
+        if (!incoming) return;
+
+        // Only honored once every indexed chunk is present; chunks still
+        // arriving after this finish the file from handleIncomingChunk
+        incoming.completeRequested = true;
+        incoming.expectedHash = message.sha256;
+        if (incoming.ranges.covers(incoming.size)) {
+          this.finalizeIncoming(message.id, incoming);
+        } else {
+          // Some chunks were dropped on the way; ask for just the gaps
+          this.sendResumeMap(message.id, incoming);
+        }
+      } else if (message.type === 'file-ack') {
+        const outgoing = this.outgoingFiles.get(message.id);
+        this.outgoingFiles.delete(message.id);
+        if (outgoing?.pull) {
+          outgoing.status = 'completed';
+          this.emitFile({ ...this.toOutgoingTransfer(message.id, outgoing, 'completed'), progress: 100 });
+          outgoing.pull.resolve();
+        }
+      } else if (message.type === 'resume-request') {
+        // The sender wants to know which ranges we already hold
+        const incoming = this.incomingFiles.get(message.id);
+        if (incoming) {
+          this.continueIncoming(message.id, incoming).then(ready => {
+            // Until the user lets us write to the file again, it stays paused
+            if (!ready) {
+              this.sendControl({ type: 'transfer-pause', id: message.id });
+              return;
+            }
+            if (incoming.status === 'paused') {
+              incoming.status = 'transferring';
+              this.emitFile(this.toIncomingTransfer(message.id, incoming));
+            }
+            this.sendResumeMap(message.id, incoming);
+          });
+        } else {
+          this.sendControl({ type: 'resume-map', id: message.id, known: false, ranges: [] });
+        }
+      } else if (message.type === 'resume-map') {
+        const outgoing = this.outgoingFiles.get(message.id);
+        if (!outgoing) return;
+        // Ranges past the end of the file can't be held by anyone
+        if (message.ranges.some(([, end]) => end > outgoing.file.size)) {
+          console.warn(`Ignoring resume map for ${message.id} that reaches past the end of the file`);
+          return;
+        }
+        this.continueOutgoing(message.id, outgoing, message.known, message.ranges).catch(error => {
+          console.error('Failed to resume transfer:', error);
+        });
+      } else if (message.type === 'transfer-offer') {
+        this.handleTransferOffer(message);
+      } else if (message.type === 'transfer-answer') {
+        this.pendingAnswers.get(message.id)?.resolve(message);
+        this.pendingAnswers.delete(message.id);
+      } else if (message.type === 'transfer-pause') {
+        const outgoing = this.outgoingFiles.get(message.id);
+        const incoming = this.incomingFiles.get(message.id);
+        if (outgoing?.status === 'transferring') {
+          outgoing.status = 'paused';
+          this.emitFile(this.toOutgoingTransfer(message.id, outgoing, 'paused'));
+        } else if (incoming?.status === 'transferring') {
+          this.pauseIncoming(message.id, incoming);
+        }
+      } else if (message.type === 'transfer-cancel') {
+        // Either one file or a whole offer the sender withdrew
+        this.dropTransfer(message.id);
+        this.dropWithdrawnOffer(message.id);
+      } else if (message.type === 'swarm-query') {
+        this.enqueueSwarm(() => this.sendHave(message.contentId, message.manifest));
+      } else if (message.type === 'swarm-request') {
+        this.enqueueSwarm(() => this.servePiece(message.contentId, message.piece));
+      } else if (message.type === 'swarm-have') {
+        // Requests for pieces the peer turns out not to have go elsewhere
+        const have = new ByteRangeSet(message.pieces);
+        this.pieceRequests.forEach((_, key) => {
+          const [contentId, piece] = key.split(':');
+          if (contentId === message.contentId && !have.contains(Number(piece), Number(piece) + 1)) {
+            this.settlePiece(key, new Error('The peer does not have this piece'));
+          }
         });
+        this.events.emit('swarmHave', message);
+      } else if (message.type === 'peer-roster') {
+        this.events.emit('peerRoster', { devices: message.devices });
+      } else if (message.type === 'peer-signal') {
+        this.events.emit('peerSignal', message);
+      } else if (message.type === 'ice-restart') {
+        // Answering gathers candidates, which must not hold up the queue
+        if (message.kind === 'offer') this.answerRestart(message.description, 'channel');
+        else this.restartAnswer?.(message.description);
       }
     }
   }
 
-  async sendFile(file: File): Promise<string> {
-    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+  private async handleIncomingChunk({ id, index, offset, chunk: payload, compressed }: DecodedChunk) {
+    const incoming = this.incomingFiles.get(id);
+    if (!incoming) return;
+
+    const wireLength = payload.length;
+    let chunk = payload;
+    if (compressed) {
+      // Never inflate past the file's chunk size
+      try {
+        chunk = await decompressChunk(payload, incoming.chunkSize);
+      } catch (error) {
+        console.error('Chunk decompression error:', error);
+        return;
+      }
+    }
+
+    if (!this.isValidChunk(incoming, index, offset, chunk.length)) {
+      console.warn(`Dropping malformed chunk ${index} for ${id} at offset ${offset}`);
+      return;
+    }
+
+    incoming.rawBytes += chunk.length;
+    incoming.wireBytes += wireLength;
+
+    // Only bytes safely written count as received; a failed write leaves
+    // its range missing, to be asked for again after file-complete
+    if (!incoming.sink) return;
+    const sink = await incoming.sink;
+    try {
+      await sink.write(offset, chunk);
+    } catch (error) {
+      console.error('Failed to write received chunk:', error);
+      return;
+    }
+    if (this.incomingFiles.get(id) !== incoming) return;
+    incoming.ranges.add(offset, offset + chunk.length);
+
+    if (incoming.hasher && offset === incoming.hashedBytes) {
+      incoming.hasher.update(chunk);
+      incoming.hashedBytes += chunk.length;
+    } else {
+      incoming.hasher = null;
+    }
+
+    if (incoming.completeRequested && incoming.ranges.covers(incoming.size)) {
+      // Verification can take a while; don't hold up the pipeline for it
+      this.finalizeIncoming(id, incoming);
+    } else {
+      if (incoming.ranges.size - incoming.persistedBytes >= checkpointInterval(incoming.persistedBytes)) {
+        this.persistIncoming(id, incoming);
+      }
+      this.emitFile(this.toIncomingTransfer(id, incoming));
+    }
+  }
+
+  // A chunk's index must match its offset and it must have the expected length
+  private isValidChunk(incoming: IncomingFile, index: number, offset: number, length: number): boolean {
+    const { chunkSize, size } = incoming;
+    if (!chunkSize) return offset + length <= size;
+
+    const chunkCount = Math.ceil(size / chunkSize);
+    const expectedLength = Math.min(chunkSize, size - offset);
+    return index < chunkCount && index * chunkSize === offset && length === expectedLength;
+  }
+
+  private async finalizeIncoming(id: string, incoming: IncomingFile) {
+    if (!this.incomingFiles.has(id) || incoming.finalizing || !incoming.sink) return;
+    incoming.finalizing = true;
+
+    const sink = await incoming.sink;
+    try {
+      // Verify the reassembled bytes before handing out the file
+      if (incoming.expectedHash) {
+        this.emitFile({ ...this.toIncomingTransfer(id, incoming), progress: 100 });
+        const actualHash = await this.getIncomingHash(incoming, sink);
+
+        if (actualHash !== incoming.expectedHash) {
+          console.error(`Integrity check failed for ${incoming.name}: expected ${incoming.expectedHash}, got ${actualHash}`);
+          incoming.status = 'corrupted';
+          incoming.completeRequested = false;
+          // Whatever is still missing is bad; if nothing is, the whole file is suspect
+          const missing = incoming.ranges.missing(incoming.size);
+          incoming.badRanges = missing.length > 0 ? missing : [[0, incoming.size]];
+          this.emitFile(this.toIncomingTransfer(id, incoming));
+          return;
+        }
+      }
+
+      const contentId = this.acceptedFiles.get(id)?.file.contentId;
+      this.incomingFiles.delete(id);
+      this.acceptedFiles.delete(id);
+      deletePartialManifest(id).catch(() => undefined);
+
+      const blob = await sink.close();
+      this.sendControl({ type: 'file-ack', id });
+      // A verified copy of a file offered to the room can be served onwards
+      if (contentId && contentId === incoming.expectedHash) this.swarmLibrary?.add(contentId, blob);
+      this.emitFile({
+        ...this.toIncomingTransfer(id, incoming),
+        progress: 100,
+        status: 'completed',
+        data: blob,
+        sink: sink.kind,
+      });
+    } catch (error) {
+      console.error('Failed to finalize received file:', error);
+      this.incomingFiles.delete(id);
+      deletePartialManifest(id).catch(() => undefined);
+      await sink.abort();
+      this.emitFile({
+        ...this.toIncomingTransfer(id, incoming),
+        progress: 0,
+        status: 'error',
+        resumable: false,
+      });
+    } finally {
+      incoming.finalizing = false;
+    }
+  }
+
+  private async getIncomingHash(incoming: IncomingFile, sink: FileSink): Promise<string> {
+    const { hasher } = incoming;
+    incoming.hasher = null;
+    if (hasher && incoming.hashedBytes === incoming.size) return toHex(hasher.digest());
+
+    // Chunks arrived out of order or across sessions; read the file back
+    await sink.checkpoint();
+    return hashBlob(await sink.read());
+  }
+
+  // Throw away the ranges that failed verification and fetch them again
+  repairTransfer(id: string) {
+    const incoming = this.incomingFiles.get(id);
+    if (!incoming || incoming.status !== 'corrupted') return;
+    if (!this.isConnected()) {
       throw new Error('Data channel not ready');
     }
 
-    const id = crypto.randomUUID();
-    const { chunkSize, bufferThreshold } = this.transferConfig;
+    incoming.badRanges?.forEach(([start, end]) => incoming.ranges.remove(start, end));
+    incoming.badRanges = undefined;
+    incoming.status = 'transferring';
+
+    this.sendResumeMap(id, incoming);
+    this.emitFile(this.toIncomingTransfer(id, incoming));
+  }
+
+  // Commit the staged bytes and record which ranges are safely on disk
+  private async persistIncoming(id: string, incoming: IncomingFile) {
+    // A sink not reopened yet has nothing new since its manifest
+    if (incoming.persisting || !incoming.sink) return;
+    incoming.persisting = true;
+
+    try {
+      const sink = await incoming.sink;
+      if (sink.kind === 'memory') return;
+
+      const ranges = incoming.ranges.toJSON();
+      await sink.checkpoint();
+      if (!this.incomingFiles.has(id)) return;
+
+      await savePartialManifest({
+        id,
+        senderId: incoming.senderId,
+        chunkSize: incoming.chunkSize,
+        name: incoming.name,
+        size: incoming.size,
+        type: incoming.type,
+        path: incoming.path,
+        destination: incoming.destination,
+        ranges,
+        updatedAt: Date.now(),
+      });
+      incoming.persistedBytes = new ByteRangeSet(ranges).size;
+    } catch (error) {
+      console.warn('Failed to persist partial transfer:', error);
+    } finally {
+      incoming.persisting = false;
+    }
+  }
+
+  // Load partial receives left over from a previous page session
+  restorePartialTransfers(): Promise<FileTransfer[]> {
+    if (!this.restoredTransfers) {
+      this.restoredTransfers = loadPartialManifests()
+        .then(manifests => {
+          manifests.forEach(manifest => {
+            if (this.incomingFiles.has(manifest.id)) return;
+
+            const ranges = new ByteRangeSet(manifest.ranges);
+            const incoming: IncomingFile = {
+              name: manifest.name,
+              size: manifest.size,
+              type: manifest.type,
+              senderId: manifest.senderId,
+              chunkSize: manifest.chunkSize,
+              ranges,
+              persistedBytes: ranges.size,
+              persisting: false,
+              finalizing: false,
+              status: 'paused',
+              completeRequested: false,
+              path: manifest.path,
+              destination: manifest.destination,
+              wireBytes: 0,
+              rawBytes: 0,
+              hasher: null,
+              hashedBytes: 0,
+              sink: null,
+            };
+            // A chosen file or folder may need permission again, so it is
+            // only reopened once the transfer continues
+            if (!incoming.destination) incoming.sink = this.reopenSink(manifest.id, incoming);
+            this.incomingFiles.set(manifest.id, incoming);
+            this.stagedFiles.add(manifest.id);
+          });
+          return manifests.map(manifest => this.toIncomingTransfer(manifest.id, this.incomingFiles.get(manifest.id)));
+        })
+        .catch(error => {
+          console.warn('Failed to restore partial transfers:', error);
+          return [];
+        });
+    }
+    return this.restoredTransfers;
+  }
+
+  // Continue downloads left paused for this sender, e.g. after a page reload
+  private async resumeTransfersFrom(senderId: string) {
+    await this.restorePartialTransfers();
+
+    this.incomingFiles.forEach(async (incoming, id) => {
+      if (incoming.status !== 'paused' || incoming.senderId !== senderId) return;
+      // Left paused for the user to resume if the file needs permission
+      if (!(await this.continueIncoming(id, incoming)) || incoming.status !== 'paused') return;
+      console.log(`Resuming ${incoming.name} from returning sender`);
+      incoming.status = 'transferring';
+      this.sendResumeMap(id, incoming);
+      this.emitFile(this.toIncomingTransfer(id, incoming));
+    });
+  }
+
+  // Make sure a receive has somewhere to write before asking for the rest;
+  // false if the user hasn't let us write to its file again this session
+  private async continueIncoming(id: string, incoming: IncomingFile): Promise<boolean> {
+    if (!incoming.sink) {
+      if (!(await canWrite(incoming.destination))) return false;
+      if (this.incomingFiles.get(id) !== incoming) return false;
+      if (!incoming.sink) incoming.sink = this.reopenSink(id, incoming);
+    }
+    await incoming.sink;
+    return this.incomingFiles.get(id) === incoming;
+  }
+
+  private reopenSink(id: string, incoming: IncomingFile): Promise<FileSink> {
+    return createFileSink({
+      id,
+      name: incoming.name,
+      type: incoming.type,
+      destination: incoming.destination,
+      path: incoming.path ?? sanitizeRelativePath(incoming.name),
+      resume: true,
+    }).then(sink => {
+      // Fell back somewhere without the bytes written so far, so start over
+      if (sink.kind !== sinkKindFor(incoming.destination)) {
+        incoming.ranges = new ByteRangeSet();
+        incoming.persistedBytes = 0;
+      }
+      return sink;
+    });
+  }
+
+  private sendResumeMap(id: string, incoming: IncomingFile) {
+    this.sendControl({
+      type: 'resume-map',
+      id,
+      known: true,
+      ranges: incoming.ranges.toJSON(),
+    });
+  }
+
+  private toIncomingTransfer(id: string, incoming: IncomingFile): FileTransfer {
+    return {
+      id,
+      direction: 'receiving',
+      name: incoming.name,
+      size: incoming.size,
+      type: incoming.type,
+      progress: incoming.size > 0 ? Math.round((incoming.ranges.size / incoming.size) * 100) : 0,
+      status: incoming.status,
+      resumable: incoming.status === 'paused',
+      badRanges: incoming.badRanges,
+      batchId: incoming.batchId,
+      path: incoming.path,
+      compressionRatio: compressionRatio(incoming.rawBytes, incoming.wireBytes),
+    };
+  }
+
+  // ============= TRANSFER OFFERS =============
+
+  // Send the batch manifest and wait for the receiver's answer. Resolves with
+  // the ids it accepted; the rest are reported as declined. Pass the offer id
+  // to sendFile so both sides can group the files into one batch.
+  // Files with a content id can be pulled from the swarm by the receiver, and
+  // by the devices in `swarmWith` from it
+  async offerFiles(
+    files: Array<SelectedFile & { id: string; contentId?: string }>,
+    batchId: string = crypto.randomUUID(),
+    swarmWith: string[] = []
+  ): Promise<string[]> {
+    if (!this.isConnected()) {
+      throw new Error('Data channel not ready');
+    }
+
+    const emitAll = (status: FileTransfer['status'], ids?: string[]) => {
+      files.forEach(({ id, file, path }) => {
+        if (ids && !ids.includes(id)) return;
+        this.emitFile({ id, direction: 'sending', name: file.name, size: file.size, type: file.type, progress: 0, status, batchId, path });
+      });
+    };
+    // List the whole batch right away; files wait here for the answer
+    emitAll('pending');
+
+    // Older peers take files without asking
+    if (!this.protocol.features.has('consent')) {
+      return files.map(({ id }) => id);
+    }
+
+    const swarm = this.protocol.features.has('swarm') && this.swarmLibrary !== null;
+    const offer: TransferOfferMessage = {
+      type: 'transfer-offer',
+      id: batchId,
+      totalSize: files.reduce((acc, { file }) => acc + file.size, 0),
+      files: await Promise.all(files.map(async ({ id, file, path, contentId }) => {
+        if (swarm && contentId) {
+          this.swarmLibrary.add(contentId, file);
+          this.swarmLibrary.allow(contentId, [this.peerDeviceId]);
+        }
+        return {
+          id,
+          name: await this.encryptField(file.name),
+          fileType: await this.encryptField(file.type),
+          size: file.size,
+          path: path && await this.encryptField(path),
+          contentId: swarm ? contentId : undefined,
+        };
+      })),
+      swarmWith: swarm && swarmWith.length > 0 ? swarmWith : undefined,
+      encrypted: this.isEncrypted,
+    };
+
+    const answer = new Promise<TransferAnswerMessage>((resolve, reject) => {
+      this.pendingAnswers.set(offer.id, { resolve, reject });
+    });
+    this.sendControl(offer);
+
+    let accepted: string[];
+    try {
+      const { accepted: ids, pull = [] } = await answer;
+      accepted = ids;
+      files.forEach((selected, i) => {
+        const { contentId } = offer.files[i];
+        if (contentId && pull.includes(selected.id) && accepted.includes(selected.id)) {
+          this.expectPull(selected, contentId, batchId);
+        }
+      });
+    } catch (error) {
+      emitAll(error instanceof TransferInterruptedError ? 'cancelled' : 'error');
+      throw error;
+    }
+
+    emitAll('declined', files.map(({ id }) => id).filter(id => !accepted.includes(id)));
+    return accepted;
+  }
+
+  // Accept a pending offer, or only the given files of it, optionally
+  // saving them where the user chose and trusting the sender from now on.
+  // Files listed in `pull` are left to the caller to fetch from the swarm.
+  acceptOffer(
+    id: string,
+    options: { fileIds?: string[]; destination?: SaveDestination; trustSender?: boolean; pull?: string[] } = {}
+  ) {
+    const offer = this.incomingOffers.get(id);
+    if (!offer) return;
+
+    if (options.trustSender && offer.senderIdentity) {
+      trustIdentity(offer.senderIdentity);
+    }
+    const offered = offer.files.map(file => file.id);
+    const accepted = options.fileIds ? offered.filter(fileId => options.fileIds.includes(fileId)) : offered;
+    const pull = offer.files
+      .filter(file => file.contentId && accepted.includes(file.id) && options.pull?.includes(file.id))
+      .map(file => file.id);
+    // A picked file can only hold one of them
+    const destination = options.destination?.kind === 'file' && accepted.length !== 1 ? undefined : options.destination;
+    this.answerOffer(offer, accepted, destination, pull);
+  }
+
+  declineOffer(id: string) {
+    const offer = this.incomingOffers.get(id);
+    if (offer) this.answerOffer(offer, []);
+  }
+
+  private handleTransferOffer(message: TransferOfferMessage) {
+    const offer: TransferOffer = {
+      id: message.id,
+      senderId: this.peerDeviceId ?? 'unknown',
+      senderIdentity: this.peerIdentity ?? undefined,
+      totalSize: message.totalSize,
+      files: message.files.map(file => ({
+        id: file.id,
+        name: file.name,
+        size: file.size,
+        type: file.fileType,
+        path: file.path,
+        contentId: file.contentId,
+      })),
+      swarmWith: message.swarmWith,
+    };
+    this.incomingOffers.set(offer.id, offer);
+
+    if (offer.senderIdentity && isTrustedIdentity(offer.senderIdentity)) {
+      this.answerOffer(offer, offer.files.map(file => file.id));
+      return;
+    }
+    this.events.emit('offer', offer);
+  }
+
+  private answerOffer(
+    offer: TransferOffer,
+    accepted: string[],
+    destination?: SaveDestination,
+    pull: string[] = []
+  ) {
+    this.incomingOffers.delete(offer.id);
+    this.sendControl({ type: 'transfer-answer', id: offer.id, accepted, pull: pull.length > 0 ? pull : undefined });
+
+    // List accepted files right away so the batch total is known up front
+    offer.files.forEach(file => {
+      if (!accepted.includes(file.id)) return;
+      // Whoever else was offered the file may fetch it from us once we have it
+      if (file.contentId && offer.swarmWith) this.swarmLibrary?.allow(file.contentId, offer.swarmWith);
+      if (pull.includes(file.id)) return;
+      this.acceptedFiles.set(file.id, { batchId: offer.id, destination, file });
+      this.emitFile({ ...file, direction: 'receiving', progress: 0, status: 'pending', batchId: offer.id });
+    });
+  }
+
+  private async encryptField(value: string): Promise<string> {
+    return this.isEncrypted && this.sharedKey ? encryptString(this.sharedKey, value) : value;
+  }
+
+  // Stop waiting for the answer to an offer and tell the peer it no longer
+  // stands, so accepting it late doesn't leave the peer waiting for files.
+  // offerFiles rejects with a cancelled TransferInterruptedError.
+  withdrawOffer(batchId: string) {
+    const pending = this.pendingAnswers.get(batchId);
+    if (!pending) return;
+    this.pendingAnswers.delete(batchId);
+    pending.reject(new TransferInterruptedError(batchId, 'cancelled'));
+    if (this.isConnected()) {
+      this.sendControl({ type: 'transfer-cancel', id: batchId });
+    }
+  }
+
+  // The sender withdrew an offer: forget it if still unanswered, or drop
+  // the files we accepted from it that never started
+  private dropWithdrawnOffer(batchId: string) {
+    if (this.incomingOffers.delete(batchId)) {
+      this.events.emit('offerWithdrawn', { id: batchId });
+      return;
+    }
+    this.acceptedFiles.forEach(({ batchId: acceptedBatch, file }, id) => {
+      if (acceptedBatch !== batchId || this.incomingFiles.has(id)) return;
+      this.acceptedFiles.delete(id);
+      this.emitFile({ ...file, direction: 'receiving', progress: 0, status: 'cancelled', batchId });
+    });
+  }
+
+  // Offers can't be answered across connections
+  private dropOffers() {
+    this.pendingAnswers.forEach(({ reject }) => reject(new Error('Data channel closed')));
+    this.pendingAnswers.clear();
+    this.incomingOffers.clear();
+  }
+
+  async sendFile(
+    file: File,
+    id: string = crypto.randomUUID(),
+    options: { batchId?: string; path?: string } = {}
+  ): Promise<string> {
+    if (!this.isConnected()) {
+      throw new Error('Data channel not ready');
+    }
+
+    // The receiver fetches this one itself
+    const pull = this.pulls.get(id);
+    if (pull) {
+      this.pulls.delete(id);
+      await pull;
+      return id;
+    }
+
+    const outgoing: OutgoingFile = {
+      file,
+      chunkSize: this.transferConfig.chunkSize,
+      sent: new ByteRangeSet(),
+      hasher: new Sha256(),
+      hashedBytes: 0,
+      status: 'transferring',
+      run: 0,
+      batchId: options.batchId,
+      path: options.path,
+      compress: await this.shouldCompress(file),
+      wireBytes: 0,
+      rawBytes: 0,
+    };
+    this.outgoingFiles.set(id, outgoing);
+
+    await this.sendFileMeta(id, outgoing);
+    await this.streamRanges(id, outgoing, [[0, file.size]]);
+
+    return id;
+  }
+
+  // Worth compressing: the peer supports it, the format isn't compressed
+  // already and a sample from the start of the file actually shrinks
+  private async shouldCompress(file: File): Promise<boolean> {
+    if (!this.protocol?.features.has('compression') || isCompressedFormat(file.name, file.type)) {
+      return false;
+    }
 
-    // Send file metadata (encrypted if available)
-    const meta: any = {
+    try {
+      const sample = await readFileChunk(file, 0, COMPRESSION_SAMPLE_BYTES);
+      if (sample.length === 0) return false;
+      const compressed = await compressChunk(sample);
+      return compressed.length <= sample.length * COMPRESSION_THRESHOLD;
+    } catch (error) {
+      console.warn('Compression check failed, sending uncompressed:', error);
+      return false;
+    }
+  }
+
+  private async sendFileMeta(id: string, outgoing: OutgoingFile) {
+    const { file, chunkSize } = outgoing;
+
+    // Send file metadata (encrypted if available). Chunks are indexed by
+    // offset / chunkSize; the SHA-256 follows in file-complete because it is
+    // computed while the file streams.
+    const meta: FileMetaMessage = {
       type: 'file-meta',
       id,
       name: file.name,
       size: file.size,
       fileType: file.type,
+      chunkSize,
+      chunkCount: Math.ceil(file.size / chunkSize),
+      integrity: 'sha-256',
+      path: outgoing.path,
       encrypted: this.isEncrypted,
     };
 
     if (this.isEncrypted && this.sharedKey) {
       meta.name = await encryptString(this.sharedKey, file.name);
       meta.fileType = await encryptString(this.sharedKey, file.type);
+      if (outgoing.path) meta.path = await encryptString(this.sharedKey, outgoing.path);
     }
 
-    this.dataChannel.send(JSON.stringify(meta));
+    this.sendControl(meta);
+  }
 
-    // Read and send file in chunks using dynamic chunk size
-    const buffer = await file.arrayBuffer();
-    const data = new Uint8Array(buffer);
-    const idBytes = new TextEncoder().encode(id);
+  // Send the given byte ranges of a file, then mark it complete. If the data
+  // channel drops part way, the transfer is left paused and can be resumed.
+  private async streamRanges(id: string, outgoing: OutgoingFile, ranges: ByteRange[]) {
+    const { file, chunkSize } = outgoing;
+    const { bufferThreshold } = this.transferConfig;
+    const streamId = this.openOutgoingStream(id);
+    const channel = this.dataChannel;
 
-    let offset = 0;
-    while (offset < data.length) {
-      const chunk = data.slice(offset, offset + chunkSize);
+    outgoing.status = 'transferring';
+    const run = ++outgoing.run;
 
-      let packet: Uint8Array;
+    try {
+      for (const [start, end] of ranges) {
+        // Stream the file from disk one chunk at a time. Only the chunk being sent
+        // and the next one being read are held in memory; everything else is
+        // bounded by the data channel buffer thresholds below.
+        let offset = start;
+        let nextChunk = offset < end ? readFileChunk(file, offset, Math.min(chunkSize, end - offset)) : null;
+
+        while (nextChunk) {
+          const chunk = await nextChunk;
+          const chunkEnd = offset + chunk.length;
+          nextChunk = chunkEnd < end ? readFileChunk(file, chunkEnd, Math.min(chunkSize, end - chunkEnd)) : null;
+
+          if (outgoing.hasher && offset === outgoing.hashedBytes) {
+            outgoing.hasher.update(chunk);
+            outgoing.hashedBytes = chunkEnd;
+          }
 
-      if (this.isEncrypted && this.sharedKey) {
-        const { iv, encrypted } = await encryptData(this.sharedKey, chunk);
+          let iv: Uint8Array | null = null;
+          let payload = chunk;
+          let flags = 0;
+
+          // Compress before encrypting; ciphertext doesn't compress
+          if (outgoing.compress && this.protocol?.features.has('compression')) {
+            const compressed = await compressChunk(chunk);
+            if (compressed.length <= chunk.length * COMPRESSION_THRESHOLD) {
+              payload = compressed;
+              flags = FrameFlags.Compressed;
+            }
+          }
+          outgoing.rawBytes += chunk.length;
+          outgoing.wireBytes += payload.length;
 
-        packet = new Uint8Array(1 + idBytes.length + 12 + encrypted.length);
-        packet[0] = idBytes.length;
-        packet.set(idBytes, 1);
-        packet.set(iv, 1 + idBytes.length);
-        packet.set(encrypted, 1 + idBytes.length + 12);
-      } else {
-        packet = new Uint8Array(1 + idBytes.length + chunk.length);
-        packet[0] = idBytes.length;
-        packet.set(idBytes, 1);
-        packet.set(chunk, 1 + idBytes.length);
+          if (this.isEncrypted && this.sharedKey) {
+            const result = await encryptData(this.sharedKey, payload);
+            iv = result.iv;
+            payload = result.encrypted;
+          }
+
+          // Wait for buffer to clear if needed (flow control)
+          if (channel.bufferedAmount > bufferThreshold) {
+            await this.waitForBufferLow(channel);
+          }
+
+          this.assertStillSending(id, outgoing, run);
+          channel.send(encodeFrame({
+            type: FrameType.Chunk,
+            flags,
+            streamId,
+            index: offset / chunkSize,
+            offset,
+            iv,
+            payload,
+          }));
+          outgoing.sent.add(offset, chunkEnd);
+          offset = chunkEnd;
+
+          this.emitFile(this.toOutgoingTransfer(id, outgoing, outgoing.status));
+        }
       }
 
-      // Wait for buffer to clear if needed (flow control)
-      if (this.dataChannel.bufferedAmount > bufferThreshold) {
-        await new Promise<void>(resolve => {
-          const onBufferLow = () => {
-            this.dataChannel?.removeEventListener('bufferedamountlow', onBufferLow);
-            resolve();
-          };
-          this.dataChannel?.addEventListener('bufferedamountlow', onBufferLow);
-        });
+      const complete: WireMessage = {
+        type: 'file-complete',
+        id,
+        sha256: this.protocol?.features.has('sha256') ? await this.getOutgoingHash(outgoing) : undefined,
+      };
+      this.assertStillSending(id, outgoing, run);
+      channel.send(JSON.stringify(complete));
+    } catch (error) {
+      // Paused or cancelled by either side; that path already reported it
+      if (error instanceof TransferInterruptedError) throw error;
+      if (channel.readyState !== 'open') {
+        outgoing.status = 'paused';
+        this.emitFile(this.toOutgoingTransfer(id, outgoing, 'paused'));
+        throw new TransferInterruptedError(id);
       }
+      this.outgoingFiles.delete(id);
+      this.emitFile(this.toOutgoingTransfer(id, outgoing, 'error'));
+      throw error;
+    }
 
-      const packetBuffer = new ArrayBuffer(packet.length);
-      new Uint8Array(packetBuffer).set(packet);
-      this.dataChannel.send(packetBuffer);
-      offset += chunkSize;
+    outgoing.status = 'completed';
+    this.emitFile({ ...this.toOutgoingTransfer(id, outgoing, 'completed'), progress: 100 });
+  }
 
-      const progress = Math.round((offset / data.length) * 100);
-      this.emitFile({
-        id,
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        progress: Math.min(progress, 100),
-        status: 'transferring',
-      });
+  // Stop a send loop once its transfer is paused, cancelled or restarted
+  private assertStillSending(id: string, outgoing: OutgoingFile, run: number) {
+    if (outgoing.status === 'transferring' && outgoing.run === run) return;
+    throw new TransferInterruptedError(id, outgoing.status === 'cancelled' ? 'cancelled' : 'paused');
+  }
+
+  private async getOutgoingHash(outgoing: OutgoingFile): Promise<string> {
+    if (!outgoing.sha256) {
+      if (outgoing.hasher && outgoing.hashedBytes === outgoing.file.size) {
+        outgoing.sha256 = toHex(outgoing.hasher.digest());
+      } else {
+        // The file was not streamed front to back in one go; hash it separately
+        outgoing.sha256 = await hashBlob(outgoing.file);
+      }
+      outgoing.hasher = null;
     }
+    return outgoing.sha256;
+  }
 
-    this.dataChannel.send(JSON.stringify({
-      type: 'file-complete',
-      id,
-    }));
+  // Continue an interrupted send using the receiver's resume map
+  private async continueOutgoing(id: string, outgoing: OutgoingFile, known: boolean, ranges: ByteRange[]) {
+    if (outgoing.status === 'transferring' || !this.isConnected()) return;
+
+    const { size } = outgoing.file;
+    const have = new ByteRangeSet(known ? ranges : []);
+    outgoing.sent = new ByteRangeSet(have.toJSON());
+
+    // The receiver lost track of the file (e.g. a different device), start over
+    if (!known) {
+      await this.sendFileMeta(id, outgoing);
+    }
 
-    this.emitFile({
+    console.log(`Resuming ${id}: ${size - have.size} of ${size} bytes remaining`);
+    await this.streamRanges(id, outgoing, have.missing(size));
+  }
+
+  private toOutgoingTransfer(id: string, outgoing: OutgoingFile, status: FileTransfer['status']): FileTransfer {
+    const { file, sent } = outgoing;
+    return {
       id,
+      direction: 'sending',
       name: file.name,
       size: file.size,
       type: file.type,
-      progress: 100,
-      status: 'completed',
+      progress: file.size > 0 ? Math.min(Math.round((sent.size / file.size) * 100), 100) : 0,
+      status,
+      resumable: status === 'paused',
+      batchId: outgoing.batchId,
+      path: outgoing.path,
+      compressionRatio: compressionRatio(outgoing.rawBytes, outgoing.wireBytes),
+    };
+  }
+
+  // Pause a single file in either direction; the peer mirrors the state
+  pauseTransfer(id: string) {
+    const outgoing = this.outgoingFiles.get(id);
+    if (outgoing?.status === 'transferring' && !outgoing.pull) {
+      // The send loop notices before its next chunk and stops
+      outgoing.status = 'paused';
+      if (this.isConnected()) this.sendControl({ type: 'transfer-pause', id });
+      this.emitFile(this.toOutgoingTransfer(id, outgoing, 'paused'));
+      return;
+    }
+
+    const incoming = this.incomingFiles.get(id);
+    if (incoming?.status === 'transferring' && !incoming.finalizing) {
+      this.pauseIncoming(id, incoming);
+      if (this.isConnected()) this.sendControl({ type: 'transfer-pause', id });
+    }
+  }
+
+  // Stop a file for good on both sides and drop any partial data
+  cancelTransfer(id: string) {
+    if (!this.outgoingFiles.has(id) && !this.incomingFiles.has(id)) return;
+    this.dropTransfer(id);
+    if (this.isConnected()) {
+      this.sendControl({ type: 'transfer-cancel', id });
+    }
+  }
+
+  // Ask the other side to continue a paused or interrupted transfer. Call
+  // from a click, which lets a restored receive ask for permission to keep
+  // saving; rejects with SavePermissionError if it isn't given.
+  async resumeTransfer(id: string) {
+    if (!this.isConnected()) {
+      throw new Error('Data channel not ready');
+    }
+
+    if (this.outgoingFiles.has(id)) {
+      // We are the sender: ask the receiver for its resume map
+      this.sendControl({ type: 'resume-request', id });
+      return;
+    }
+
+    const incoming = this.incomingFiles.get(id);
+    if (incoming) {
+      if (!(await this.continueIncoming(id, incoming))) {
+        throw new SavePermissionError(incoming.name);
+      }
+      // We are the receiver: offer our resume map directly
+      incoming.status = 'transferring';
+      this.sendResumeMap(id, incoming);
+      this.emitFile(this.toIncomingTransfer(id, incoming));
+    }
+  }
+
+  // Drop a paused transfer and any partial data kept for it
+  discardTransfer(id: string) {
+    this.outgoingFiles.delete(id);
+    this.acceptedFiles.delete(id);
+
+    const incoming = this.incomingFiles.get(id);
+    if (incoming) {
+      this.incomingFiles.delete(id);
+      incoming.sink?.then(sink => sink.abort()).catch(() => undefined);
+      deletePartialManifest(id).catch(() => undefined);
+    }
+  }
+
+  // Interrupted transfers that survive a disconnect, for repopulating the UI
+  getResumableTransfers(): { sending: FileTransfer[]; receiving: FileTransfer[] } {
+    const sending: FileTransfer[] = [];
+    const receiving: FileTransfer[] = [];
+
+    this.outgoingFiles.forEach((outgoing, id) => {
+      if (outgoing.status === 'paused') sending.push(this.toOutgoingTransfer(id, outgoing, 'paused'));
+    });
+    this.incomingFiles.forEach((incoming, id) => {
+      if (incoming.status === 'paused') receiving.push(this.toIncomingTransfer(id, incoming));
     });
 
-    return id;
+    return { sending, receiving };
+  }
+
+  private pauseIncomingTransfers() {
+    this.incomingFiles.forEach((incoming, id) => {
+      if (incoming.status === 'transferring') this.pauseIncoming(id, incoming);
+    });
+  }
+
+  private pauseIncoming(id: string, incoming: IncomingFile) {
+    incoming.status = 'paused';
+    this.persistIncoming(id, incoming);
+    this.emitFile(this.toIncomingTransfer(id, incoming));
+  }
+
+  // Forget a cancelled transfer locally and report it as cancelled
+  private dropTransfer(id: string) {
+    const outgoing = this.outgoingFiles.get(id);
+    if (outgoing) {
+      this.outgoingFiles.delete(id);
+      if (outgoing.status === 'completed') return;
+      // A running send loop stops before its next chunk
+      outgoing.status = 'cancelled';
+      this.emitFile(this.toOutgoingTransfer(id, outgoing, 'cancelled'));
+      outgoing.pull?.reject(new TransferInterruptedError(id, 'cancelled'));
+    }
+
+    this.acceptedFiles.delete(id);
+    const incoming = this.incomingFiles.get(id);
+    if (incoming && !incoming.finalizing) {
+      this.discardTransfer(id);
+      this.emitFile({ ...this.toIncomingTransfer(id, incoming), status: 'cancelled', resumable: false });
+    }
+  }
+
+  // ============= SWARM =============
+
+  // Where swarm content is served from: the library of the room this
+  // connection belongs to
+  setSwarmLibrary(library: SwarmLibrary | null) {
+    this.swarmLibrary = library;
+  }
+
+  // Ask the peer which pieces of a file it can serve; answered with a
+  // swarmHave event
+  querySwarm(contentId: string, manifest: boolean = false) {
+    if (this.isConnected()) this.sendControl({ type: 'swarm-query', contentId, manifest });
+  }
+
+  // Fetch one piece of a file from the peer. Resolves with the raw bytes;
+  // checking them against the piece hash is up to the caller.
+  requestPiece(contentId: string, piece: number, size: number): Promise<Uint8Array> {
+    if (!this.isConnected()) {
+      return Promise.reject(new Error('Data channel not ready'));
+    }
+
+    const key = `${contentId}:${piece}`;
+    const [start, end] = pieceRange(size, piece);
+    return new Promise<Uint8Array>((resolve, reject) => {
+      this.pieceRequests.set(key, {
+        start,
+        data: new Uint8Array(end - start),
+        received: new ByteRangeSet(),
+        resolve,
+        reject,
+        timer: setTimeout(() => this.settlePiece(key, new Error('Piece request timed out')), PIECE_TIMEOUT_MS),
+      });
+      this.sendControl({ type: 'swarm-request', contentId, piece });
+    });
+  }
+
+  // The receiver pulls pieces of this file from us and possibly from other
+  // devices; progress counts the pieces served from here
+  private expectPull({ id, file, path }: SelectedFile & { id: string }, contentId: string, batchId: string) {
+    const outgoing: OutgoingFile = {
+      file,
+      chunkSize: this.transferConfig.chunkSize,
+      sent: new ByteRangeSet(),
+      hasher: null,
+      hashedBytes: 0,
+      sha256: contentId,
+      status: 'transferring',
+      run: 0,
+      batchId,
+      path,
+      compress: false,
+      wireBytes: 0,
+      rawBytes: 0,
+    };
+    const pull = new Promise<void>((resolve, reject) => {
+      outgoing.pull = { resolve, reject };
+    });
+    // Nobody may be waiting on it yet
+    pull.catch(() => undefined);
+
+    this.outgoingFiles.set(id, outgoing);
+    this.pulls.set(id, pull);
+    this.emitFile(this.toOutgoingTransfer(id, outgoing, 'transferring'));
+  }
+
+  // Tell the sender of a pulled file that we have it, or that we gave up
+  finishPull(id: string, completed: boolean) {
+    if (!this.isConnected()) return;
+    this.sendControl(completed ? { type: 'file-ack', id } : { type: 'transfer-cancel', id });
+  }
+
+  private handleIncomingPiece({ contentId, index, offset, chunk }: DecodedPiece) {
+    const key = `${contentId}:${index}`;
+    const request = this.pieceRequests.get(key);
+    if (!request) return;
+
+    const at = offset - request.start;
+    if (at < 0 || at + chunk.length > request.data.length) {
+      this.settlePiece(key, new Error('Piece data out of range'));
+      return;
+    }
+    request.data.set(chunk, at);
+    request.received.add(at, at + chunk.length);
+    if (request.received.covers(request.data.length)) this.settlePiece(key);
+  }
+
+  private settlePiece(key: string, error?: Error) {
+    const request = this.pieceRequests.get(key);
+    if (!request) return;
+    this.pieceRequests.delete(key);
+    clearTimeout(request.timer);
+    if (error) request.reject(error);
+    else request.resolve(request.data);
+  }
+
+  // Serving runs one task at a time, apart from the inbound queue, so a
+  // large piece doesn't hold up control messages
+  private enqueueSwarm(task: () => Promise<void>) {
+    this.swarmQueue = this.swarmQueue.then(task).catch(error => {
+      console.warn('Failed to serve swarm request:', error);
+    });
+  }
+
+  // Only devices the content was offered to in this room learn we have it
+  private async sendHave(contentId: string, manifest: boolean) {
+    const source = this.swarmLibrary?.get(contentId, this.peerDeviceId);
+    const pieceHashes = manifest ? await source?.pieceHashes() : undefined;
+    if (!this.isConnected()) return;
+    this.sendControl({
+      type: 'swarm-have',
+      contentId,
+      size: source?.size ?? 0,
+      pieces: source?.have() ?? [],
+      pieceHashes: pieceHashes ?? undefined,
+    });
+  }
+
+  private async servePiece(contentId: string, piece: number) {
+    const source = this.swarmLibrary?.get(contentId, this.peerDeviceId);
+    if (!source || !new ByteRangeSet(source.have()).contains(piece, piece + 1)) {
+      // Our have-map doubles as the refusal
+      await this.sendHave(contentId, false);
+      return;
+    }
+
+    const channel = this.dataChannel;
+    const { chunkSize, bufferThreshold } = this.transferConfig;
+    const [start] = pieceRange(source.size, piece);
+    const bytes = await source.read(piece);
+    const streamId = this.openOutgoingStream(contentId);
+
+    for (let at = 0; at < bytes.length; at += chunkSize) {
+      let payload = bytes.subarray(at, at + chunkSize);
+      let iv: Uint8Array | null = null;
+      if (this.isEncrypted && this.sharedKey) {
+        const result = await encryptData(this.sharedKey, payload);
+        iv = result.iv;
+        payload = result.encrypted;
+      }
+
+      if (channel.bufferedAmount > bufferThreshold) {
+        await this.waitForBufferLow(channel);
+      }
+      channel.send(encodeFrame({
+        type: FrameType.Piece,
+        streamId,
+        index: piece,
+        offset: start + at,
+        iv,
+        payload,
+      }));
+    }
+
+    // Count the piece towards files the peer is pulling from us
+    this.outgoingFiles.forEach((outgoing, id) => {
+      if (!outgoing.pull || outgoing.sha256 !== contentId) return;
+      outgoing.sent.add(start, start + bytes.length);
+      this.emitFile(this.toOutgoingTransfer(id, outgoing, 'transferring'));
+    });
+  }
+
+  // Swarm state is tied to the connection; pulls from us can't continue
+  private dropSwarm() {
+    this.pieceRequests.forEach((_, key) => this.settlePiece(key, new Error('Data channel closed')));
+    this.pulls.clear();
+    this.outgoingFiles.forEach((outgoing, id) => {
+      if (!outgoing.pull) return;
+      this.outgoingFiles.delete(id);
+      this.emitFile(this.toOutgoingTransfer(id, outgoing, 'error'));
+      outgoing.pull.reject(new TransferInterruptedError(id));
+    });
+  }
+
+  // Relay for PeerRoom: who else is in the room, and connection setup
+  // between participants
+  sendPeerRoster(devices: string[]) {
+    if (this.isConnected() && this.hasFeature('swarm')) this.sendControl({ type: 'peer-roster', devices });
+  }
+
+  sendPeerSignal(signal: PeerSignalMessage) {
+    if (this.isConnected()) this.sendControl(signal);
+  }
+
+  private waitForBufferLow(channel: RTCDataChannel): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (channel.readyState !== 'open') return reject(new Error('Data channel closed'));
+
+      const cleanup = () => {
+        channel.removeEventListener('bufferedamountlow', onBufferLow);
+        channel.removeEventListener('close', onClose);
+      };
+      const onBufferLow = () => {
+        cleanup();
+        resolve();
+      };
+      const onClose = () => {
+        cleanup();
+        reject(new Error('Data channel closed'));
+      };
+
+      channel.addEventListener('bufferedamountlow', onBufferLow);
+      channel.addEventListener('close', onClose);
+    });
+  }
+
+  hasTransfer(id: string): boolean {
+    return this.outgoingFiles.has(id) || this.incomingFiles.has(id);
+  }
+
+  // Device id the peer announced in its hello
+  getPeerDeviceId(): string | null {
+    return this.peerDeviceId;
   }
 
   isConnected(): boolean {
-    return this.dataChannel?.readyState === 'open';
+    return this.dataChannel?.readyState === 'open' && this.protocol !== null;
+  }
+
+  // Whether both sides negotiated an optional protocol feature
+  hasFeature(feature: ProtocolFeature): boolean {
+    return this.protocol?.features.has(feature) ?? false;
   }
 
   isEncryptionEnabled(): boolean {
@@ -695,14 +2572,38 @@ class WebRTCManager {
     this.peerConnection?.close();
     this.dataChannel = null;
     this.peerConnection = null;
-    this.receivedChunks.clear();
-    this.receivedMeta.clear();
+    this.peerDeviceId = null;
+    this.protocol = null;
+    this.path = null;
+    clearTimeout(this.handshakeTimer);
+    this.resetRestart();
+    // Partial transfers are kept for resuming; clean up everything else
+    const finished = [...this.stagedFiles].filter(id => !this.incomingFiles.has(id));
+    finished.forEach(id => this.stagedFiles.delete(id));
+    removeStagedFiles(finished);
     this.keyPair = null;
     this.sharedKey = null;
     this.isEncrypted = false;
+    this.sessionKeys = null;
+    this.peerIdentity = null;
     this.transferConfig = { ...DEFAULT_CONFIG };
     this.calibrationResults.clear();
+    this.dropOffers();
+    this.dropSwarm();
+    // Files that started arriving keep their consent for resuming
+    this.acceptedFiles.forEach((_, id) => {
+      if (!this.incomingFiles.has(id)) this.acceptedFiles.delete(id);
+    });
+  }
+
+  // Disconnect and release the instance for good
+  destroy() {
+    this.disconnect();
+    this.events.clear();
+    window.removeEventListener('pagehide', this.handlePageHide);
   }
 }
 
+// Shared instance for code that doesn't get one from PeerSessionProvider
+
 export const webrtc = new WebRTCManager();
\ No newline at end of file
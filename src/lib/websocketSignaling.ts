@@ -0,0 +1,66 @@
+// Signaling through a self-hosted server that speaks the relay protocol
+// (signalingRooms.ts) over a WebSocket, one JSON message per frame. Rooms
+// belong to the client that created them; the server holds them, and what
+// it pushes meanwhile, for a short while after the socket drops, so a
+// client that reconnects with the same id picks up where it left off.
+
+import { RelaySignaling } from './relaySignaling';
+import type { RelayClientMessage, RelayServerMessage } from './signalingRooms';
+
+const RECONNECT_DELAY_MS = 2000;
+// The server keeps a dropped client's rooms for 30 s
+const RECONNECT_WINDOW_MS = 25 * 1000;
+
+export class WebSocketSignaling extends RelaySignaling {
+  private socket: Promise<WebSocket> | null = null;
+  // Never shared with other clients, so it can't be used to take our rooms
+  private clientId = crypto.randomUUID();
+  private droppedAt: number | null = null;
+
+  constructor(readonly url: string) {
+    super();
+  }
+
+  protected send(message: RelayClientMessage) {
+    this.connect()
+      .then(socket => socket.send(JSON.stringify(message)))
+      .catch(error => this.failPending(error));
+  }
+
+  // Connect on first use, and again after the connection drops
+  private connect(): Promise<WebSocket> {
+    if (!this.socket) {
+      this.socket = new Promise<WebSocket>((resolve, reject) => {
+        const url = new URL(this.url);
+        url.searchParams.set('client', this.clientId);
+        const socket = new WebSocket(url);
+        socket.onopen = () => {
+          this.droppedAt = null;
+          resolve(socket);
+        };
+        socket.onerror = () => reject(new Error(`Could not reach the signaling server at ${this.url}`));
+        socket.onmessage = (event) => {
+          let message: RelayServerMessage;
+          try {
+            message = JSON.parse(event.data);
+          } catch {
+            console.warn('Ignoring malformed signaling message');
+            return;
+          }
+          this.receive(message);
+        };
+        socket.onclose = () => {
+          this.socket = null;
+          this.failPending(new Error('Lost connection to the signaling server'));
+          // Come back on our own while rooms or watches still wait for
+          // pushes, before the server gives up on them
+          if (this.droppedAt === null) this.droppedAt = Date.now();
+          if (this.isListening() && Date.now() - this.droppedAt < RECONNECT_WINDOW_MS) {
+            setTimeout(() => this.connect().catch(() => undefined), RECONNECT_DELAY_MS);
+          }
+        };
+      });
+    }
+    return this.socket;
+  }
+}
@@ -0,0 +1,279 @@
+// Streaming ZIP archive writer. Entries are read, optionally deflated and
+// written out one slice at a time, so an archive of any size can be piped
+// to disk without holding its files in memory. CRCs and sizes follow each
+// entry in a data descriptor; ZIP64 records are added once an entry, an
+// offset or the entry count outgrows the classic 32/16-bit fields.
+
+import { supportsCompressionStream } from './compression';
+
+export interface ZipEntry {
+  // Path inside the archive, using "/" separators
+  path: string;
+  data: Blob;
+  lastModified?: Date;
+  // Set to false to store this entry even when deflating the archive
+  compress?: boolean;
+}
+
+export interface ZipOptions {
+  compression?: 'store' | 'deflate';
+}
+
+const STORE = 0;
+const DEFLATE = 8;
+
+const FLAG_DATA_DESCRIPTOR = 1 << 3;
+const FLAG_UTF8 = 1 << 11;
+
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+// Deflate can grow incompressible data slightly, so switch to ZIP64 early
+const DEFLATE_ZIP64_THRESHOLD = 0xf0000000;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+class Crc32 {
+  private crc = 0xffffffff;
+
+  update(bytes: Uint8Array) {
+    let crc = this.crc;
+    for (let i = 0; i < bytes.length; i++) {
+      crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    this.crc = crc;
+  }
+
+  digest(): number {
+    return (this.crc ^ 0xffffffff) >>> 0;
+  }
+}
+
+interface CentralRecord {
+  name: Uint8Array;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+function setUint64(view: DataView, position: number, value: number) {
+  view.setUint32(position, value >>> 0, true);
+  view.setUint32(position + 4, Math.floor(value / 0x100000000), true);
+}
+
+// MS-DOS date and time fields used by ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function localHeader(record: CentralRecord, zip64: boolean): Uint8Array {
+  const extraLength = zip64 ? 20 : 0;
+  const bytes = new Uint8Array(30 + record.name.length + extraLength);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+  view.setUint16(6, FLAG_DATA_DESCRIPTOR | FLAG_UTF8, true);
+  view.setUint16(8, record.method, true);
+  view.setUint16(10, record.time, true);
+  view.setUint16(12, record.date, true);
+  // CRC and sizes follow in the data descriptor
+  if (zip64) {
+    view.setUint32(18, MAX_UINT32, true);
+    view.setUint32(22, MAX_UINT32, true);
+  }
+  view.setUint16(26, record.name.length, true);
+  view.setUint16(28, extraLength, true);
+  bytes.set(record.name, 30);
+
+  if (zip64) {
+    // ZIP64 extended information with sizes left for the descriptor
+    const extra = 30 + record.name.length;
+    view.setUint16(extra, 0x0001, true);
+    view.setUint16(extra + 2, 16, true);
+  }
+  return bytes;
+}
+
+function dataDescriptor(record: CentralRecord, zip64: boolean): Uint8Array {
+  const bytes = new Uint8Array(zip64 ? 24 : 16);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, 0x08074b50, true);
+  view.setUint32(4, record.crc, true);
+  if (zip64) {
+    setUint64(view, 8, record.compressedSize);
+    setUint64(view, 16, record.size);
+  } else {
+    view.setUint32(8, record.compressedSize, true);
+    view.setUint32(12, record.size, true);
+  }
+  return bytes;
+}
+
+function centralHeader(record: CentralRecord): Uint8Array {
+  // Any field that doesn't fit moves into the ZIP64 extra field, in this order
+  const wide = [
+    record.size >= MAX_UINT32 ? record.size : null,
+    record.compressedSize >= MAX_UINT32 ? record.compressedSize : null,
+    record.offset >= MAX_UINT32 ? record.offset : null,
+  ].filter((value): value is number => value !== null);
+  const extraLength = wide.length > 0 ? 4 + wide.length * 8 : 0;
+
+  const bytes = new Uint8Array(46 + record.name.length + extraLength);
+  const view = new DataView(bytes.buffer);
+  const version = wide.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, version, true);
+  view.setUint16(6, version, true);
+  view.setUint16(8, FLAG_DATA_DESCRIPTOR | FLAG_UTF8, true);
+  view.setUint16(10, record.method, true);
+  view.setUint16(12, record.time, true);
+  view.setUint16(14, record.date, true);
+  view.setUint32(16, record.crc, true);
+  view.setUint32(20, Math.min(record.compressedSize, MAX_UINT32), true);
+  view.setUint32(24, Math.min(record.size, MAX_UINT32), true);
+  view.setUint16(28, record.name.length, true);
+  view.setUint16(30, extraLength, true);
+  view.setUint32(42, Math.min(record.offset, MAX_UINT32), true);
+  bytes.set(record.name, 46);
+
+  if (wide.length > 0) {
+    const extra = 46 + record.name.length;
+    view.setUint16(extra, 0x0001, true);
+    view.setUint16(extra + 2, wide.length * 8, true);
+    wide.forEach((value, i) => setUint64(view, extra + 4 + i * 8, value));
+  }
+  return bytes;
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Uint8Array {
+  const zip64 = count >= MAX_UINT16 || size >= MAX_UINT32 || offset >= MAX_UINT32;
+  const bytes = new Uint8Array(zip64 ? 56 + 20 + 22 : 22);
+  const view = new DataView(bytes.buffer);
+  let position = 0;
+
+  if (zip64) {
+    // ZIP64 end of central directory record
+    view.setUint32(0, 0x06064b50, true);
+    setUint64(view, 4, 44);
+    view.setUint16(12, VERSION_ZIP64, true);
+    view.setUint16(14, VERSION_ZIP64, true);
+    setUint64(view, 24, count);
+    setUint64(view, 32, count);
+    setUint64(view, 40, size);
+    setUint64(view, 48, offset);
+
+    // ZIP64 end of central directory locator
+    view.setUint32(56, 0x07064b50, true);
+    setUint64(view, 64, offset + size);
+    view.setUint32(72, 1, true);
+    position = 76;
+  }
+
+  view.setUint32(position, 0x06054b50, true);
+  view.setUint16(position + 8, Math.min(count, MAX_UINT16), true);
+  view.setUint16(position + 10, Math.min(count, MAX_UINT16), true);
+  view.setUint32(position + 12, Math.min(size, MAX_UINT32), true);
+  view.setUint32(position + 16, Math.min(offset, MAX_UINT32), true);
+  return bytes;
+}
+
+async function* writeZip(entries: ZipEntry[], options: ZipOptions): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const canDeflate = options.compression === 'deflate' && supportsCompressionStream('deflate-raw');
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const method = canDeflate && entry.compress !== false ? DEFLATE : STORE;
+    const size = entry.data.size;
+    const zip64 = size >= (method === DEFLATE ? DEFLATE_ZIP64_THRESHOLD : MAX_UINT32);
+    const record: CentralRecord = {
+      name: encoder.encode(entry.path),
+      method,
+      ...dosDateTime(entry.lastModified ?? new Date()),
+      crc: 0,
+      compressedSize: 0,
+      size,
+      offset,
+    };
+
+    const header = localHeader(record, zip64);
+    yield header;
+
+    // The CRC covers the original bytes, read once as they stream through
+    const crc = new Crc32();
+    let body = entry.data.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        crc.update(chunk);
+        controller.enqueue(chunk);
+      },
+    }));
+    if (method === DEFLATE) {
+      body = body.pipeThrough(new CompressionStream('deflate-raw'));
+    }
+
+    const reader = body.getReader();
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      record.compressedSize += result.value.length;
+      yield result.value;
+    }
+
+    record.crc = crc.digest();
+    const descriptor = dataDescriptor(record, zip64);
+    yield descriptor;
+
+    offset += header.length + record.compressedSize + descriptor.length;
+    records.push(record);
+  }
+
+  const centralOffset = offset;
+  for (const record of records) {
+    const header = centralHeader(record);
+    offset += header.length;
+    yield header;
+  }
+
+  yield endOfCentralDirectory(records.length, offset - centralOffset, centralOffset);
+}
+
+// Build a ZIP archive as a stream; nothing is read until the stream is pulled
+export function createZipStream(entries: ZipEntry[], options: ZipOptions = {}): ReadableStream<Uint8Array> {
+  const chunks = writeZip(entries, options);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -1,11 +1,12 @@
 import { useState } from 'react';
 import { ConnectionPanel } from '@/components/ConnectionPanel';
 import { TransferPanel } from '@/components/TransferPanel';
+import { SeedPanel } from '@/components/SeedPanel';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { Shield, Zap, Wifi } from 'lucide-react';
 
 const Index = () => {
-  const [isConnected, setIsConnected] = useState(false);
+  const [view, setView] = useState<'connect' | 'transfer' | 'seed'>('connect');
 
   return (
     <div className="min-h-screen bg-background flex flex-col transition-colors duration-500 ease-out">
@@ -42,21 +43,23 @@ const Index = () => {
 
       {/* Main content */}
       <main className="relative z-10 flex-1 flex items-center justify-center px-4 pb-8">
-        {!isConnected ? (
-          <ConnectionPanel onConnected={() => setIsConnected(true)} />
+        {view === 'connect' ? (
+          <ConnectionPanel onConnected={() => setView('transfer')} onSeed={() => setView('seed')} />
+        ) : view === 'seed' ? (
+          <SeedPanel onClose={() => setView('connect')} />
         ) : (
-          <TransferPanel onDisconnect={() => setIsConnected(false)} />
+          <TransferPanel onDisconnect={() => setView('connect')} />
         )}
       </main>
 
-      {/* WiFi Disclaimer */}
+      {/* Network tip */}
       <div className="relative z-10 px-6 pb-2">
         <div className="glass rounded-xl p-3 max-w-md mx-auto flex items-center gap-3 border border-warning/30 bg-warning/5">
           <div className="w-8 h-8 rounded-lg bg-warning/20 flex items-center justify-center flex-shrink-0">
             <Wifi className="w-4 h-4 text-warning" />
           </div>
           <p className="text-xs text-muted-foreground">
-            <span className="font-semibold text-foreground">Important:</span> Both devices must be connected to the <span className="text-warning font-medium">same WiFi network</span> for file sharing to work.
+            <span className="font-semibold text-foreground">Tip:</span> Devices on the <span className="text-warning font-medium">same WiFi network</span> connect directly. Across networks, add a TURN server in Settings, or choose local network only there to keep transfers at home.
           </p>
         </div>
       </div>
@@ -0,0 +1,58 @@
+// Short-lived TURN credentials (the TURN REST API scheme used by coturn's
+// --use-auth-secret): the username carries its expiry and the credential is
+// base64(HMAC-SHA1(shared secret, username)), so the TURN server can check
+// it without storing any users and nothing long-lived ships to browsers.
+//
+// Secrets:
+//   TURN_SHARED_SECRET  same as coturn's --static-auth-secret
+//   TURN_URLS           comma-separated, e.g. turn:turn.example.com:3478,turns:turn.example.com:5349
+//   TURN_TTL_SECONDS    how long credentials last (default 3600)
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_TTL_SECONDS = 3600;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function hmacSha1Base64(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign'],
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+  return btoa(String.fromCharCode(...signature));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const secret = Deno.env.get('TURN_SHARED_SECRET');
+  const urls = (Deno.env.get('TURN_URLS') ?? '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+  if (!secret || urls.length === 0) {
+    return json({ error: 'TURN is not configured' }, 503);
+  }
+
+  const ttl = Number(Deno.env.get('TURN_TTL_SECONDS')) || DEFAULT_TTL_SECONDS;
+  const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+  const username = `${expiresAt}:secureshare`;
+  const credential = await hmacSha1Base64(secret, username);
+
+  return json({ iceServers: [{ urls, username, credential }], expiresAt });
+});
@@ -0,0 +1,44 @@
+-- Group rooms: several devices join one host. Each joiner posts its own
+-- offer in room_peers and the host answers it, so the room row itself
+-- carries no offer.
+ALTER TABLE public.rooms
+ALTER COLUMN offer DROP NOT NULL,
+ADD COLUMN max_peers integer NOT NULL DEFAULT 1;
+
+CREATE TABLE public.room_peers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pin TEXT NOT NULL REFERENCES public.rooms(pin) ON DELETE CASCADE,
+  offer TEXT NOT NULL,
+  public_key TEXT,
+  answer TEXT,
+  peer_public_key TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The host listens for new joiners and each joiner for its answer
+ALTER PUBLICATION supabase_realtime ADD TABLE public.room_peers;
+
+CREATE INDEX idx_room_peers_pin ON public.room_peers(pin);
+
+-- Same open policies as rooms: short-lived public signaling data
+ALTER TABLE public.room_peers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can join rooms"
+ON public.room_peers
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can view room peers"
+ON public.room_peers
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can answer room peers"
+ON public.room_peers
+FOR UPDATE
+USING (true);
+
+CREATE POLICY "Anyone can delete room peers"
+ON public.room_peers
+FOR DELETE
+USING (true);
@@ -0,0 +1,34 @@
+-- Trickle ICE: candidates each side finds after its offer or answer went
+-- out. A row with a null candidate marks the end of that side's candidates.
+CREATE TABLE public.room_candidates (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  pin TEXT NOT NULL REFERENCES public.rooms(pin) ON DELETE CASCADE,
+  -- The joiner's room_peers row in group rooms, null in one-to-one rooms
+  peer_id UUID REFERENCES public.room_peers(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('offerer', 'answerer')),
+  candidate JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Each side listens for the other's candidates
+ALTER PUBLICATION supabase_realtime ADD TABLE public.room_candidates;
+
+CREATE INDEX idx_room_candidates_pin ON public.room_candidates(pin);
+
+-- Same open policies as rooms: short-lived public signaling data
+ALTER TABLE public.room_candidates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can add room candidates"
+ON public.room_candidates
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can view room candidates"
+ON public.room_candidates
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can delete room candidates"
+ON public.room_candidates
+FOR DELETE
+USING (true);